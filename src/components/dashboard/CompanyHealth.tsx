@@ -0,0 +1,66 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Ban, Clock, PauseCircle } from 'lucide-react';
+import { describeScrapeError } from '@/lib/scrapeErrors';
+
+export interface CompanyHealthStatus {
+  last_scraped_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  last_error_category: string | null;
+  consecutive_failures: number;
+  paused_at: string | null;
+  paused_reason: string | null;
+}
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+const CompanyHealth = ({ health }: { health: CompanyHealthStatus }) => {
+  const errorDescription = health.last_error ? describeScrapeError(health.last_error_category) : null;
+
+  return (
+    <div className="mt-4 space-y-2 rounded-md border bg-white p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {health.paused_at ? (
+          <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-200">
+            <PauseCircle className="w-3 h-3 mr-1" />
+            Paused
+          </Badge>
+        ) : health.consecutive_failures > 0 ? (
+          <Badge className="bg-red-100 text-red-800 hover:bg-red-200">
+            {health.consecutive_failures} failure{health.consecutive_failures === 1 ? '' : 's'} in a row
+          </Badge>
+        ) : health.last_success_at ? (
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-200">Healthy</Badge>
+        ) : (
+          <Badge variant="secondary">Not scraped yet</Badge>
+        )}
+        {errorDescription && (
+          <Badge variant="outline" className={errorDescription.transient ? 'border-amber-300 text-amber-800' : 'border-gray-300 text-gray-700'}>
+            {errorDescription.transient ? <Clock className="w-3 h-3 mr-1" /> : <Ban className="w-3 h-3 mr-1" />}
+            {errorDescription.label}
+          </Badge>
+        )}
+      </div>
+      <div className="grid gap-1 text-gray-500 sm:grid-cols-2">
+        <p>Last scraped: {formatTimestamp(health.last_scraped_at)}</p>
+        <p>Last success: {formatTimestamp(health.last_success_at)}</p>
+      </div>
+      {health.paused_at && (
+        <p className="text-amber-700">
+          {health.paused_reason || 'Paused'} on {new Date(health.paused_at).toLocaleString()}. Scheduled scrapes skip this company until it is resumed.
+        </p>
+      )}
+      {errorDescription && (
+        <p className={errorDescription.transient ? 'text-amber-700' : 'text-gray-600'}>{errorDescription.hint}</p>
+      )}
+      {health.last_error && (
+        <p className="flex items-start gap-2 text-red-600">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          {health.last_error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CompanyHealth;
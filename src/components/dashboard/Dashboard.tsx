@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { User } from '@supabase/supabase-js';
+import { FunctionsHttpError, User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,8 +9,20 @@ import { useToast } from '@/components/ui/use-toast';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, Plus, Bell, Building, Search, Target } from 'lucide-react';
+import { Trash2, Plus, Bell, Building, Search, Target, Eye, RefreshCw, PlayCircle, PauseCircle, Archive } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import ExtractionRecipeDialog, { ExtractionRecipe } from '@/components/dashboard/ExtractionRecipeDialog';
+import ScrapePreview, { ScrapePreviewResult } from '@/components/dashboard/ScrapePreview';
+import ScrapeHistory from '@/components/dashboard/ScrapeHistory';
+import CompanyHealth, { CompanyHealthStatus } from '@/components/dashboard/CompanyHealth';
+import ScheduleFields from '@/components/dashboard/ScheduleFields';
+import { CompanySchedule, ScheduleDraft, evaluateSchedule, scheduleColumns, scheduleLabels } from '@/lib/schedule';
+import ScheduleDialog from '@/components/dashboard/ScheduleDialog';
+import ListingSettingsDialog from '@/components/dashboard/ListingSettingsDialog';
+import SourceTypeField from '@/components/dashboard/SourceTypeField';
+import { SourceType, sourceTypeLabels } from '@/lib/sources';
+import JobLifecycle from '@/components/dashboard/JobLifecycle';
+import PostingClosedAlerts from '@/components/dashboard/PostingClosedAlerts';
 
 interface Job {
   id: string;
@@ -18,13 +30,33 @@ interface Job {
   position: string;
   status: 'applied' | 'interviewing' | 'offered' | 'rejected';
   created_at: string;
+  location?: string | null;
+  team?: string | null;
+  department?: string | null;
+  commitment?: string | null;
+  employment_type?: string | null;
+  salary_min?: number | null;
+  salary_max?: number | null;
+  salary_currency?: string | null;
+  salary_unit?: string | null;
+  last_seen_at?: string | null;
+  closed_at?: string | null;
 }
 
-interface TrackedCompany {
+type JobFilter = 'all' | 'open' | 'closed';
+
+interface TrackedCompany extends CompanyHealthStatus {
   id: string;
   company_name: string;
   career_page_url: string;
   created_at: string;
+  source_type: SourceType;
+  extraction_recipe: ExtractionRecipe | null;
+  max_pages: number | null;
+  max_jobs: number | null;
+  schedule: CompanySchedule;
+  cron_expression: string | null;
+  next_run_at: string | null;
 }
 
 interface Keyword {
@@ -35,16 +67,30 @@ interface Keyword {
 
 interface Notification {
   id: string;
-  job_id: string;
-  keyword_matched: string;
+  type: 'job_match' | 'company_paused' | 'posting_closed';
+  job_id: string | null;
+  keyword_matched: string | null;
+  message: string | null;
   sent_at: string;
   email_sent: boolean;
   jobs: {
     company: string;
     position: string;
-  };
+  } | null;
+  tracked_companies: {
+    company_name: string;
+  } | null;
 }
 
+const formatSalary = (job: Job) => {
+  if (job.salary_min == null && job.salary_max == null) return null;
+  const amounts = [...new Set([job.salary_min, job.salary_max].filter((amount) => amount != null))]
+    .map((amount) => amount.toLocaleString())
+    .join(' – ');
+  const unit = job.salary_unit ? ` / ${job.salary_unit.toLowerCase()}` : '';
+  return `${job.salary_currency ? `${job.salary_currency} ` : ''}${amounts}${unit}`;
+};
+
 const Dashboard = ({ user }: { user: User }) => {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [trackedCompanies, setTrackedCompanies] = useState<TrackedCompany[]>([]);
@@ -52,6 +98,8 @@ const Dashboard = ({ user }: { user: User }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
   const [scraping, setScraping] = useState(false);
+  const [scrapingCompanyId, setScrapingCompanyId] = useState<string | null>(null);
+  const [jobFilter, setJobFilter] = useState<JobFilter>('all');
   
   const [newJob, setNewJob] = useState({
     company: '',
@@ -62,8 +110,16 @@ const Dashboard = ({ user }: { user: User }) => {
   const [newCompany, setNewCompany] = useState({
     company_name: '',
     career_page_url: '',
+    source_type: 'auto' as SourceType,
+  });
+  const [newCompanySchedule, setNewCompanySchedule] = useState<ScheduleDraft>({
+    schedule: 'daily',
+    cron_expression: '',
   });
   
+  const [companyPreview, setCompanyPreview] = useState<ScrapePreviewResult | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  
   const [newKeyword, setNewKeyword] = useState('');
   
   const { toast } = useToast();
@@ -126,7 +182,8 @@ const Dashboard = ({ user }: { user: User }) => {
       .from('notifications')
       .select(`
         *,
-        jobs!inner(company, position)
+        jobs(company, position),
+        tracked_companies(company_name)
       `)
       .order('sent_at', { ascending: false })
       .limit(10);
@@ -171,9 +228,11 @@ const Dashboard = ({ user }: { user: User }) => {
   const handleAddCompany = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
+      // New companies have no next_run_at, so the next scheduler tick picks them up
       const { error } = await supabase.from('tracked_companies').insert([
         {
           ...newCompany,
+          ...scheduleColumns(newCompanySchedule),
           user_id: user.id,
         },
       ]);
@@ -188,7 +247,13 @@ const Dashboard = ({ user }: { user: User }) => {
       setNewCompany({
         company_name: '',
         career_page_url: '',
+        source_type: 'auto',
+      });
+      setNewCompanySchedule({
+        schedule: 'daily',
+        cron_expression: '',
       });
+      setCompanyPreview(null);
 
       fetchTrackedCompanies();
     } catch (error: any) {
@@ -200,6 +265,25 @@ const Dashboard = ({ user }: { user: User }) => {
     }
   };
 
+  const handlePreviewCompany = async () => {
+    if (!newCompany.career_page_url) return;
+
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('job-scraper', {
+        body: { dry_run: true, url: newCompany.career_page_url, source_type: newCompany.source_type }
+      });
+
+      if (error) throw error;
+
+      setCompanyPreview(data);
+    } catch (error) {
+      setCompanyPreview({ success: false, error: error.message || 'Failed to preview career page', jobs: [] });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleAddKeyword = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newKeyword.trim()) return;
@@ -254,6 +338,34 @@ const Dashboard = ({ user }: { user: User }) => {
     }
   };
 
+  const handleResumeCompany = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('tracked_companies')
+        .update({
+          paused_at: null,
+          paused_reason: null,
+          consecutive_failures: 0,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Company resumed and will be scraped on the next run',
+      });
+
+      fetchTrackedCompanies();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDeleteKeyword = async (id: string) => {
     try {
       const { error } = await supabase
@@ -278,18 +390,35 @@ const Dashboard = ({ user }: { user: User }) => {
     }
   };
 
-  const handleManualScrape = async () => {
-    setScraping(true);
+  const handleManualScrape = async (companyId?: string) => {
+    if (companyId) {
+      setScrapingCompanyId(companyId);
+    } else {
+      setScraping(true);
+    }
     try {
       const { data, error } = await supabase.functions.invoke('job-scraper', {
-        body: { manual: true }
+        body: companyId ? { manual: true, company_id: companyId } : { manual: true }
       });
 
+      // Another run holds the scrape lock; tell the user how far along it is
+      if (error instanceof FunctionsHttpError && error.context.status === 409) {
+        const { run } = await error.context.json();
+        const progress = run?.companies_total != null ? ` (${run.companies_done} of ${run.companies_total} companies done)` : '';
+        toast({
+          title: 'Scrape already running',
+          description: `A ${run?.trigger_source === 'scheduled' ? 'scheduled' : 'manual'} run is in progress${progress}. Try again once it finishes.`,
+        });
+        return;
+      }
+
       if (error) throw error;
 
       toast({
         title: 'Success',
-        description: `Scraping completed! Found ${data?.stats?.new_jobs_found || 0} new jobs`,
+        description: data?.stats?.companies_deferred
+          ? `Found ${data.stats.new_jobs_found || 0} new jobs. ${data.stats.companies_deferred} companies were deferred to the next run.`
+          : `Scraping completed! Found ${data?.stats?.new_jobs_found || 0} new jobs`,
       });
 
       // Refresh data
@@ -302,6 +431,7 @@ const Dashboard = ({ user }: { user: User }) => {
       });
     } finally {
       setScraping(false);
+      setScrapingCompanyId(null);
     }
   };
 
@@ -340,8 +470,8 @@ const Dashboard = ({ user }: { user: User }) => {
           </div>
           <div className="flex gap-3">
             <Button 
-              onClick={handleManualScrape} 
-              disabled={scraping}
+              onClick={() => handleManualScrape()} 
+              disabled={scraping || scrapingCompanyId !== null}
               className="bg-green-600 hover:bg-green-700"
             >
               <Search className="w-4 h-4 mr-2" />
@@ -414,11 +544,12 @@ const Dashboard = ({ user }: { user: User }) => {
 
         {/* Main Content */}
         <Tabs defaultValue="jobs" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 bg-white/80 backdrop-blur-sm">
+          <TabsList className="grid w-full grid-cols-5 bg-white/80 backdrop-blur-sm">
             <TabsTrigger value="jobs">My Jobs</TabsTrigger>
             <TabsTrigger value="companies">Tracked Companies</TabsTrigger>
             <TabsTrigger value="keywords">Keywords</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            <TabsTrigger value="history">Scrape History</TabsTrigger>
           </TabsList>
 
           {/* Jobs Tab */}
@@ -480,44 +611,70 @@ const Dashboard = ({ user }: { user: User }) => {
               </CardContent>
             </Card>
 
+            <div className="flex justify-end">
+              <Select value={jobFilter} onValueChange={(value: JobFilter) => setJobFilter(value)}>
+                <SelectTrigger className="w-48 bg-white/80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs ({jobs.length})</SelectItem>
+                  <SelectItem value="open">Open postings ({jobs.filter((job) => !job.closed_at).length})</SelectItem>
+                  <SelectItem value="closed">Closed postings ({jobs.filter((job) => job.closed_at).length})</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid gap-4">
-              {jobs.map((job) => (
-                <Card key={job.id} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
-                  <CardContent className="p-6">
-                    <div className="flex justify-between items-center">
-                      <div>
-                        <h3 className="text-lg font-semibold text-gray-900">{job.position}</h3>
-                        <p className="text-gray-600">{job.company}</p>
-                        <p className="text-sm text-gray-500 mt-1">
-                          Applied on {new Date(job.created_at).toLocaleDateString()}
-                        </p>
+              {jobs
+                .filter((job) => jobFilter === 'all' || (jobFilter === 'closed') === Boolean(job.closed_at))
+                .map((job) => (
+                  <Card key={job.id} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg hover:shadow-xl transition-shadow">
+                    <CardContent className="p-6">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{job.position}</h3>
+                          <p className="text-gray-600">{job.company}</p>
+                          {(job.location || job.team || job.department || job.commitment || job.employment_type) && (
+                            <p className="text-sm text-gray-500">
+                              {[job.location, job.department, job.team, job.commitment || job.employment_type]
+                                .filter((value, index, values) => value && values.indexOf(value) === index)
+                                .join(' · ')}
+                            </p>
+                          )}
+                          {formatSalary(job) && (
+                            <p className="text-sm text-gray-500">{formatSalary(job)}</p>
+                          )}
+                          <p className="text-sm text-gray-500 mt-1">
+                            Applied on {new Date(job.created_at).toLocaleDateString()}
+                          </p>
+                          <JobLifecycle job={job} />
+                        </div>
+                        <Badge
+                          variant={
+                            job.status === 'offered'
+                              ? 'default'
+                              : job.status === 'interviewing'
+                              ? 'secondary'
+                              : job.status === 'rejected'
+                              ? 'destructive'
+                              : 'outline'
+                          }
+                          className={
+                            job.status === 'offered'
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : job.status === 'interviewing'
+                              ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                              : job.status === 'rejected'
+                              ? 'bg-red-100 text-red-800 hover:bg-red-200'
+                              : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+                          }
+                        >
+                          {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+                        </Badge>
                       </div>
-                      <Badge
-                        variant={
-                          job.status === 'offered'
-                            ? 'default'
-                            : job.status === 'interviewing'
-                            ? 'secondary'
-                            : job.status === 'rejected'
-                            ? 'destructive'
-                            : 'outline'
-                        }
-                        className={
-                          job.status === 'offered'
-                            ? 'bg-green-100 text-green-800 hover:bg-green-200'
-                            : job.status === 'interviewing'
-                            ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
-                            : job.status === 'rejected'
-                            ? 'bg-red-100 text-red-800 hover:bg-red-200'
-                            : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
-                        }
-                      >
-                        {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
-                      </Badge>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                ))}
             </div>
           </TabsContent>
 
@@ -549,15 +706,43 @@ const Dashboard = ({ user }: { user: User }) => {
                         id="career_page_url"
                         type="url"
                         value={newCompany.career_page_url}
-                        onChange={(e) => setNewCompany({ ...newCompany, career_page_url: e.target.value })}
-                        placeholder="https://careers.company.com"
+                        onChange={(e) => {
+                          setNewCompany({ ...newCompany, career_page_url: e.target.value });
+                          setCompanyPreview(null);
+                        }}
+                        placeholder="https://careers.company.com or a feed URL"
                         required
                       />
                     </div>
+                    <SourceTypeField
+                      id="new-company"
+                      value={newCompany.source_type}
+                      onChange={(source_type) => {
+                        setNewCompany({ ...newCompany, source_type });
+                        setCompanyPreview(null);
+                      }}
+                    />
                   </div>
-                  <Button type="submit" className="bg-green-600 hover:bg-green-700">
-                    Start Tracking
-                  </Button>
+                  <ScheduleFields id="new-company" value={newCompanySchedule} onChange={setNewCompanySchedule} />
+                  <div className="flex gap-3">
+                    <Button
+                      type="submit"
+                      className="bg-green-600 hover:bg-green-700"
+                      disabled={evaluateSchedule(newCompanySchedule).error !== null}
+                    >
+                      Start Tracking
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handlePreviewCompany}
+                      disabled={previewing || !newCompany.career_page_url}
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      {previewing ? 'Checking...' : 'Preview Jobs'}
+                    </Button>
+                  </div>
+                  {companyPreview && <ScrapePreview result={companyPreview} />}
                 </form>
               </CardContent>
             </Card>
@@ -579,17 +764,72 @@ const Dashboard = ({ user }: { user: User }) => {
                         </a>
                         <p className="text-sm text-gray-500 mt-1">
                           Added on {new Date(company.created_at).toLocaleDateString()}
+                          {company.source_type !== 'auto' && ` · ${sourceTypeLabels[company.source_type]}`}
+                          {company.extraction_recipe && ' · Custom extraction recipe'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Checked {company.schedule === 'cron' ? `on cron ${company.cron_expression} (UTC)` : scheduleLabels[company.schedule].toLowerCase()}
+                          {' · '}
+                          {company.paused_at
+                            ? 'Paused'
+                            : company.next_run_at && new Date(company.next_run_at) > new Date()
+                              ? `Next run ${new Date(company.next_run_at).toLocaleString()}`
+                              : 'Due on the next scheduler run'}
                         </p>
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteCompany(company.id)}
-                        className="text-red-600 hover:text-red-800 hover:bg-red-50"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <div className="flex gap-2">
+                        {company.paused_at && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleResumeCompany(company.id)}
+                            title="Resume scheduled scraping"
+                          >
+                            <PlayCircle className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleManualScrape(company.id)}
+                          disabled={scraping || scrapingCompanyId !== null}
+                          title="Scrape this company now"
+                        >
+                          <RefreshCw className={`w-4 h-4 ${scrapingCompanyId === company.id ? 'animate-spin' : ''}`} />
+                        </Button>
+                        <ScheduleDialog
+                          companyId={company.id}
+                          companyName={company.company_name}
+                          schedule={company.schedule}
+                          cronExpression={company.cron_expression}
+                          onSaved={fetchTrackedCompanies}
+                        />
+                        <ListingSettingsDialog
+                          companyId={company.id}
+                          companyName={company.company_name}
+                          sourceType={company.source_type}
+                          maxPages={company.max_pages}
+                          maxJobs={company.max_jobs}
+                          onSaved={fetchTrackedCompanies}
+                        />
+                        <ExtractionRecipeDialog
+                          companyId={company.id}
+                          companyName={company.company_name}
+                          careerPageUrl={company.career_page_url}
+                          recipe={company.extraction_recipe}
+                          onSaved={fetchTrackedCompanies}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteCompany(company.id)}
+                          className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
+                    <CompanyHealth health={company} />
                   </CardContent>
                 </Card>
               ))}
@@ -641,23 +881,52 @@ const Dashboard = ({ user }: { user: User }) => {
 
           {/* Notifications Tab */}
           <TabsContent value="notifications" className="space-y-6">
+            <PostingClosedAlerts userId={user.id} />
             <div className="grid gap-4">
               {notifications.map((notification) => (
                 <Card key={notification.id} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
                   <CardContent className="p-6">
                     <div className="flex items-start justify-between">
                       <div className="flex items-start gap-4">
-                        <div className="p-2 bg-blue-100 rounded-lg">
-                          <Bell className="w-5 h-5 text-blue-600" />
-                        </div>
+                        {notification.type === 'company_paused' ? (
+                          <div className="p-2 bg-amber-100 rounded-lg">
+                            <PauseCircle className="w-5 h-5 text-amber-600" />
+                          </div>
+                        ) : notification.type === 'posting_closed' ? (
+                          <div className="p-2 bg-gray-100 rounded-lg">
+                            <Archive className="w-5 h-5 text-gray-600" />
+                          </div>
+                        ) : (
+                          <div className="p-2 bg-blue-100 rounded-lg">
+                            <Bell className="w-5 h-5 text-blue-600" />
+                          </div>
+                        )}
                         <div>
-                          <h3 className="font-semibold text-gray-900">
-                            New job match: {notification.jobs.position}
-                          </h3>
-                          <p className="text-gray-600">at {notification.jobs.company}</p>
-                          <p className="text-sm text-gray-500 mt-1">
-                            Matched keyword: "{notification.keyword_matched}"
-                          </p>
+                          {notification.type === 'company_paused' ? (
+                            <>
+                              <h3 className="font-semibold text-gray-900">
+                                Scraping paused: {notification.tracked_companies?.company_name || 'Removed company'}
+                              </h3>
+                              <p className="text-gray-600">{notification.message}</p>
+                            </>
+                          ) : notification.type === 'posting_closed' ? (
+                            <>
+                              <h3 className="font-semibold text-gray-900">
+                                Posting taken down: {notification.jobs?.position || 'Removed job'}
+                              </h3>
+                              <p className="text-gray-600">{notification.message}</p>
+                            </>
+                          ) : (
+                            <>
+                              <h3 className="font-semibold text-gray-900">
+                                New job match: {notification.jobs?.position}
+                              </h3>
+                              <p className="text-gray-600">at {notification.jobs?.company}</p>
+                              <p className="text-sm text-gray-500 mt-1">
+                                Matched keyword: "{notification.keyword_matched}"
+                              </p>
+                            </>
+                          )}
                           <p className="text-xs text-gray-400 mt-2">
                             {new Date(notification.sent_at).toLocaleString()}
                           </p>
@@ -683,6 +952,11 @@ const Dashboard = ({ user }: { user: User }) => {
               )}
             </div>
           </TabsContent>
+
+          {/* Scrape History Tab */}
+          <TabsContent value="history" className="space-y-6">
+            <ScrapeHistory />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import ScrapePreview, { ScrapePreviewResult } from '@/components/dashboard/ScrapePreview';
+import { FlaskConical, Settings2 } from 'lucide-react';
+
+export interface ExtractionRecipe {
+  item: string;
+  title?: string;
+  url?: string;
+  location?: string;
+  date?: string;
+}
+
+interface ExtractionRecipeDialogProps {
+  companyId: string;
+  companyName: string;
+  careerPageUrl: string;
+  recipe: ExtractionRecipe | null;
+  onSaved: () => void;
+}
+
+const emptyRecipe: ExtractionRecipe = {
+  item: '',
+  title: '',
+  url: '',
+  location: '',
+  date: '',
+};
+
+const recipeFields: { key: keyof ExtractionRecipe; label: string; placeholder: string }[] = [
+  { key: 'item', label: 'List item selector', placeholder: 'e.g., ul.openings > li' },
+  { key: 'title', label: 'Title selector', placeholder: 'e.g., h3.job-title' },
+  { key: 'url', label: 'URL selector', placeholder: 'e.g., a.apply-link' },
+  { key: 'location', label: 'Location selector', placeholder: 'e.g., .job-location' },
+  { key: 'date', label: 'Date selector', placeholder: 'e.g., time' },
+];
+
+// Drops blank selectors so the scraper falls back to its defaults for them
+const compactRecipe = (recipe: ExtractionRecipe): ExtractionRecipe | null => {
+  if (!recipe.item.trim()) return null;
+  return Object.fromEntries(
+    Object.entries(recipe)
+      .map(([key, value]) => [key, value?.trim()])
+      .filter(([, value]) => value)
+  ) as unknown as ExtractionRecipe;
+};
+
+const ExtractionRecipeDialog = ({ companyId, companyName, careerPageUrl, recipe, onSaved }: ExtractionRecipeDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ExtractionRecipe>({ ...emptyRecipe, ...recipe });
+  const [testing, setTesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<ScrapePreviewResult | null>(null);
+
+  const { toast } = useToast();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setDraft({ ...emptyRecipe, ...recipe });
+      setPreview(null);
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('job-scraper', {
+        body: { dry_run: true, url: careerPageUrl, recipe: compactRecipe(draft) }
+      });
+
+      if (error) throw error;
+
+      setPreview(data);
+    } catch (error) {
+      setPreview({ success: false, error: error.message || 'Failed to test recipe', jobs: [] });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async (nextRecipe: ExtractionRecipe | null) => {
+    setSaving(true);
+    try {
+      // Forget the cached listing so the next run re-extracts with the new recipe
+      const { error } = await supabase
+        .from('tracked_companies')
+        .update({
+          extraction_recipe: nextRecipe as unknown as Json,
+          listing_url: null,
+          etag: null,
+          last_modified: null,
+          content_hash: null,
+        })
+        .eq('id', companyId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: nextRecipe ? 'Extraction recipe saved' : 'Extraction recipe removed',
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Advanced extraction settings">
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extraction recipe for {companyName}</DialogTitle>
+          <DialogDescription>
+            CSS selectors used instead of automatic detection. Every element matching the list item
+            selector is one job; the other selectors are relative to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {recipeFields.map(({ key, label, placeholder }) => (
+            <div key={key} className={`space-y-2 ${key === 'item' ? 'md:col-span-2' : ''}`}>
+              <Label htmlFor={`recipe-${companyId}-${key}`}>{label}</Label>
+              <Input
+                id={`recipe-${companyId}-${key}`}
+                value={draft[key] || ''}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={placeholder}
+                className="font-mono text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Button variant="outline" onClick={handleTest} disabled={testing || !draft.item.trim()}>
+            <FlaskConical className="w-4 h-4 mr-2" />
+            {testing ? 'Testing...' : 'Test'}
+          </Button>
+          <Button
+            onClick={() => handleSave(compactRecipe(draft))}
+            disabled={saving || !draft.item.trim()}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Save Recipe
+          </Button>
+          {recipe && (
+            <Button
+              variant="outline"
+              onClick={() => handleSave(null)}
+              disabled={saving}
+              className="text-red-600 hover:text-red-800 hover:bg-red-50"
+            >
+              Use Automatic Detection
+            </Button>
+          )}
+        </div>
+
+        {preview && <ScrapePreview result={preview} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExtractionRecipeDialog;
@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge';
+
+interface JobLifecycleProps {
+  created_at: string;
+  last_seen_at?: string | null;
+  closed_at?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDays = (days: number) => `${days} day${days === 1 ? '' : 's'}`;
+
+// Open/closed state of a scraped posting and how long it has been (or was) live
+const JobLifecycle = ({ job }: { job: JobLifecycleProps }) => {
+  // Jobs added by hand are never seen on a listing, so they have no lifecycle
+  if (!job.last_seen_at && !job.closed_at) return null;
+
+  const end = job.closed_at ? new Date(job.closed_at) : new Date();
+  const days = Math.max(0, Math.round((end.getTime() - new Date(job.created_at).getTime()) / DAY_MS));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-500">
+      {job.closed_at ? (
+        <>
+          <Badge variant="outline" className="border-gray-300 text-gray-600">Closed</Badge>
+          <span>
+            Taken down {new Date(job.closed_at).toLocaleDateString()} after {formatDays(days)}
+          </span>
+        </>
+      ) : (
+        <>
+          <Badge variant="outline" className="border-green-300 text-green-700">Open</Badge>
+          <span>Live for {formatDays(days)}</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobLifecycle;
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import SourceTypeField from '@/components/dashboard/SourceTypeField';
+import { SourceType, readsPages } from '@/lib/sources';
+import { Layers } from 'lucide-react';
+
+interface ListingSettingsDialogProps {
+  companyId: string;
+  companyName: string;
+  sourceType: SourceType;
+  maxPages: number | null;
+  maxJobs: number | null;
+  onSaved: () => void;
+}
+
+interface SettingsDraft {
+  source_type: SourceType;
+  max_pages: string;
+  max_jobs: string;
+}
+
+// Same bounds as the columns' check constraints
+const limitFields: { key: 'max_pages' | 'max_jobs'; label: string; placeholder: string; max: number }[] = [
+  { key: 'max_pages', label: 'Pages to read', placeholder: 'Default', max: 50 },
+  { key: 'max_jobs', label: 'Jobs to keep', placeholder: 'Default', max: 1000 },
+];
+
+// Blank means the scraper's default; anything else must be a whole number in range
+const parseLimit = (value: string, max: number): number | null | undefined => {
+  if (!value.trim()) return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : undefined;
+};
+
+const toDraft = (sourceType: SourceType, maxPages: number | null, maxJobs: number | null): SettingsDraft => ({
+  source_type: sourceType,
+  max_pages: maxPages?.toString() ?? '',
+  max_jobs: maxJobs?.toString() ?? '',
+});
+
+const ListingSettingsDialog = ({ companyId, companyName, sourceType, maxPages, maxJobs, onSaved }: ListingSettingsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<SettingsDraft>(toDraft(sourceType, maxPages, maxJobs));
+  const [saving, setSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const parsed = {
+    max_pages: parseLimit(draft.max_pages, 50),
+    max_jobs: parseLimit(draft.max_jobs, 1000),
+  };
+  const invalid = parsed.max_pages === undefined || parsed.max_jobs === undefined;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setDraft(toDraft(sourceType, maxPages, maxJobs));
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Forget the cached listing so the next run reads it with the new settings
+      const { error } = await supabase
+        .from('tracked_companies')
+        .update({
+          source_type: draft.source_type,
+          max_pages: parsed.max_pages,
+          max_jobs: parsed.max_jobs,
+          listing_url: null,
+          etag: null,
+          last_modified: null,
+          content_hash: null,
+        })
+        .eq('id', companyId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Listing settings updated',
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Change how the listing is read">
+          <Layers className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Listing settings for {companyName}</DialogTitle>
+          <DialogDescription>
+            What kind of source the career page URL is, and how much of its listing to read.
+            Leave a limit blank for the default: pages up to the scraper's limit, and 50 jobs when the
+            listing is read by automatic detection or every job otherwise. Feeds and job boards are read
+            in one go, so only the job limit applies to them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <SourceTypeField
+          id={`settings-${companyId}`}
+          value={draft.source_type}
+          onChange={(source_type) => setDraft({ ...draft, source_type })}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {limitFields.map(({ key, label, placeholder, max }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`limits-${companyId}-${key}`}>{label}</Label>
+              <Input
+                id={`limits-${companyId}-${key}`}
+                type="number"
+                min={1}
+                max={max}
+                value={draft[key]}
+                disabled={key === 'max_pages' && !readsPages(draft.source_type)}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={placeholder}
+              />
+              {parsed[key] === undefined && (
+                <p className="text-sm text-red-600">Enter a whole number from 1 to {max}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <Button
+            onClick={handleSave}
+            disabled={saving || invalid}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Save Settings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ListingSettingsDialog;
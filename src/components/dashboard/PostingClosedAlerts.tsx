@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+
+// Opt-in for alerts when a posting the user is pursuing is taken down
+const PostingClosedAlerts = ({ userId }: { userId: string }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchSetting = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('notify_on_posting_closed')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (!error && data) {
+        setEnabled(data.notify_on_posting_closed);
+      }
+      setLoading(false);
+    };
+
+    fetchSetting();
+  }, [userId]);
+
+  const handleChange = async (checked: boolean) => {
+    setEnabled(checked);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ notify_on_posting_closed: checked })
+      .eq('id', userId);
+
+    if (error) {
+      setEnabled(!checked);
+      toast({
+        title: 'Error',
+        description: 'Failed to update alert settings',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+      <CardContent className="p-6 flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="notify_on_posting_closed" className="font-semibold text-gray-900">
+            Posting taken down alerts
+          </Label>
+          <p className="text-sm text-gray-600 mt-1">
+            Get notified when a posting you are interviewing for, were offered, or that matched your keywords disappears from the company's career page.
+          </p>
+        </div>
+        <Switch
+          id="notify_on_posting_closed"
+          checked={enabled}
+          disabled={loading}
+          onCheckedChange={handleChange}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PostingClosedAlerts;
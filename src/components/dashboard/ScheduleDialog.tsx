@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import ScheduleFields from '@/components/dashboard/ScheduleFields';
+import { CompanySchedule, ScheduleDraft, evaluateSchedule, scheduleColumns } from '@/lib/schedule';
+import { Clock } from 'lucide-react';
+
+interface ScheduleDialogProps {
+  companyId: string;
+  companyName: string;
+  schedule: CompanySchedule;
+  cronExpression: string | null;
+  onSaved: () => void;
+}
+
+const ScheduleDialog = ({ companyId, companyName, schedule, cronExpression, onSaved }: ScheduleDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ScheduleDraft>({ schedule, cron_expression: cronExpression || '' });
+  const [saving, setSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const { error: scheduleError, nextRun } = evaluateSchedule(draft);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setDraft({ schedule, cron_expression: cronExpression || '' });
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('tracked_companies')
+        .update({
+          ...scheduleColumns(draft),
+          next_run_at: nextRun.toISOString(),
+        })
+        .eq('id', companyId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Schedule updated',
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Change how often this company is checked">
+          <Clock className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule for {companyName}</DialogTitle>
+          <DialogDescription>
+            How often the scheduler checks this career page for new jobs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScheduleFields id={`schedule-${companyId}`} value={draft} onChange={setDraft} />
+
+        <div className="flex gap-3">
+          <Button
+            onClick={handleSave}
+            disabled={saving || scheduleError !== null}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Save Schedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleDialog;
@@ -0,0 +1,52 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CompanySchedule, ScheduleDraft, evaluateSchedule, scheduleLabels } from '@/lib/schedule';
+
+interface ScheduleFieldsProps {
+  id: string;
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+}
+
+const ScheduleFields = ({ id, value, onChange }: ScheduleFieldsProps) => {
+  const { error, nextRun } = evaluateSchedule(value);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-schedule`}>Check Frequency</Label>
+        <Select
+          value={value.schedule}
+          onValueChange={(schedule: CompanySchedule) => onChange({ ...value, schedule })}
+        >
+          <SelectTrigger id={`${id}-schedule`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(scheduleLabels).map(([schedule, label]) => (
+              <SelectItem key={schedule} value={schedule}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.schedule === 'cron' && (
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-cron`}>Cron Expression (UTC)</Label>
+          <Input
+            id={`${id}-cron`}
+            value={value.cron_expression}
+            onChange={(e) => onChange({ ...value, cron_expression: e.target.value })}
+            placeholder="e.g., 0 9 * * 1-5"
+            className="font-mono text-sm"
+          />
+        </div>
+      )}
+      <p className={`text-sm md:col-span-2 ${error ? 'text-red-600' : 'text-gray-500'}`}>
+        {error || `Next run: ${nextRun?.toLocaleString()}`}
+      </p>
+    </div>
+  );
+};
+
+export default ScheduleFields;
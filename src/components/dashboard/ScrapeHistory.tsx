@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { History } from 'lucide-react';
+import { describeScrapeError } from '@/lib/scrapeErrors';
+
+interface ScrapeRunCompany {
+  id: string;
+  company_name: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  error: string | null;
+  error_category: string | null;
+  jobs_found: number;
+  new_jobs: number;
+  notifications_created: number;
+  unchanged: boolean;
+  postings_closed: number;
+  postings_reopened: number;
+}
+
+interface ScrapeRun {
+  id: string;
+  trigger_source: 'scheduled' | 'manual';
+  status: 'running' | 'completed' | 'partial' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  companies_deferred: number;
+  scrape_run_companies: ScrapeRunCompany[];
+}
+
+const statusStyles: Record<ScrapeRunCompany['status'] | ScrapeRun['status'], string> = {
+  succeeded: 'bg-green-100 text-green-800 hover:bg-green-200',
+  completed: 'bg-green-100 text-green-800 hover:bg-green-200',
+  failed: 'bg-red-100 text-red-800 hover:bg-red-200',
+  skipped: 'bg-gray-100 text-gray-800 hover:bg-gray-200',
+  running: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  partial: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
+};
+
+const formatDuration = (run: ScrapeRun) => {
+  if (!run.finished_at) return 'in progress';
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const ScrapeHistory = () => {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        // Per-company rows are filtered to the current user's companies by RLS
+        const { data, error } = await supabase
+          .from('scrape_runs')
+          .select(`
+            *,
+            scrape_run_companies(*)
+          `)
+          .order('started_at', { ascending: false })
+          .limit(20);
+
+        if (error) throw error;
+        setRuns(data || []);
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: 'Failed to load scrape history',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRuns();
+  }, [toast]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+        <CardContent className="p-12 text-center">
+          <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No scrape runs yet</h3>
+          <p className="text-gray-600">
+            Runs appear here after the scheduler or the "Run Scraper" button checks your companies.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {runs.map((run) => {
+        const companies = run.scrape_run_companies || [];
+        const newJobs = companies.reduce((total, company) => total + company.new_jobs, 0);
+        const notifications = companies.reduce((total, company) => total + company.notifications_created, 0);
+
+        return (
+          <Card key={run.id} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+            <CardContent className="p-6 space-y-4">
+              <div className="flex flex-wrap justify-between items-start gap-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">
+                    {new Date(run.started_at).toLocaleString()}
+                  </h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {companies.length} {companies.length === 1 ? 'company' : 'companies'} · {newJobs} new jobs · {notifications} notifications · {formatDuration(run)}
+                  </p>
+                  {run.companies_deferred > 0 && (
+                    <p className="text-sm text-amber-700 mt-1">
+                      Stopped at the time budget; {run.companies_deferred} {run.companies_deferred === 1 ? 'company was' : 'companies were'} deferred to the next run
+                    </p>
+                  )}
+                  {run.error && <p className="text-sm text-red-600 mt-1">{run.error}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Badge variant="outline">{capitalize(run.trigger_source)}</Badge>
+                  <Badge className={statusStyles[run.status]}>{capitalize(run.status)}</Badge>
+                </div>
+              </div>
+
+              {companies.length > 0 && (
+                <div className="divide-y rounded-md border bg-white">
+                  {companies.map((company) => {
+                    const errorDescription = company.status === 'failed' ? describeScrapeError(company.error_category) : null;
+
+                    return (
+                      <div key={company.id} className="flex flex-wrap justify-between items-start gap-3 p-3 text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">{company.company_name}</p>
+                          <p className="text-gray-500">
+                            {company.unchanged && company.jobs_found === 0
+                              ? 'Listing not modified since the last run'
+                              : `${company.jobs_found} jobs found · ${company.new_jobs} new · ${company.notifications_created} notifications`}
+                            {company.unchanged && company.jobs_found > 0 && ' · unchanged since the last run'}
+                            {company.postings_closed > 0 && ` · ${company.postings_closed} taken down`}
+                            {company.postings_reopened > 0 && ` · ${company.postings_reopened} back up`}
+                          </p>
+                          {company.error && <p className="text-red-600 mt-1">{company.error}</p>}
+                          {errorDescription && (
+                            <p className={errorDescription.transient ? 'text-amber-700 mt-1' : 'text-gray-600 mt-1'}>{errorDescription.hint}</p>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          {errorDescription && (
+                            <Badge variant="outline">{errorDescription.label}</Badge>
+                          )}
+                          <Badge className={statusStyles[company.status]}>{capitalize(company.status)}</Badge>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScrapeHistory;
@@ -0,0 +1,79 @@
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+
+export interface ScrapePreviewResult {
+  success: boolean;
+  error?: string;
+  extractor?: string;
+  warnings?: string[];
+  jobs: {
+    title: string;
+    url?: string;
+    location?: string;
+    posted_date?: string;
+  }[];
+}
+
+const extractorLabels: Record<string, string> = {
+  recipe: 'Custom recipe',
+  greenhouse: 'Greenhouse',
+  lever: 'Lever',
+  workday: 'Workday',
+  feed: 'Feed',
+  'json-ld': 'Structured data (JSON-LD)',
+  dom: 'Page heuristics',
+};
+
+// Previews show whatever a page claims its job links are, so only http(s)
+// ones are rendered as links
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const ScrapePreview = ({ result }: { result: ScrapePreviewResult }) => {
+  if (!result.success) {
+    return <p className="text-sm text-red-600">{result.error || 'Extraction failed'}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-medium text-gray-700">
+          Extracted {result.jobs.length} job{result.jobs.length === 1 ? '' : 's'}
+        </p>
+        {result.extractor && (
+          <Badge variant="outline">{extractorLabels[result.extractor] || result.extractor}</Badge>
+        )}
+      </div>
+
+      {result.warnings && result.warnings.length > 0 && (
+        <ul className="space-y-1">
+          {result.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-2 text-sm text-amber-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result.jobs.length > 0 && (
+        <div className="max-h-64 overflow-y-auto divide-y rounded-md border bg-white">
+          {result.jobs.map((job, index) => (
+            <div key={`${job.url}-${index}`} className="p-3 text-sm">
+              <p className="font-medium text-gray-900">{job.title}</p>
+              <div className="flex flex-wrap items-center gap-2 mt-1 text-gray-500">
+                {job.location && <Badge variant="secondary">{job.location}</Badge>}
+                {job.url && isWebUrl(job.url) && (
+                  <a href={job.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline truncate max-w-md">
+                    {job.url}
+                  </a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScrapePreview;
@@ -0,0 +1,28 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SOURCE_TYPES, SourceType, sourceTypeHints, sourceTypeLabels } from '@/lib/sources';
+
+interface SourceTypeFieldProps {
+  id: string;
+  value: SourceType;
+  onChange: (value: SourceType) => void;
+}
+
+const SourceTypeField = ({ id, value, onChange }: SourceTypeFieldProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={`${id}-source-type`}>Source Type</Label>
+    <Select value={value} onValueChange={(sourceType: SourceType) => onChange(sourceType)}>
+      <SelectTrigger id={`${id}-source-type`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SOURCE_TYPES.map(sourceType => (
+          <SelectItem key={sourceType} value={sourceType}>{sourceTypeLabels[sourceType]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <p className="text-sm text-gray-500">{sourceTypeHints[value]}</p>
+  </div>
+);
+
+export default SourceTypeField;
@@ -17,6 +17,28 @@ export interface Database {
           company: string
           position: string
           status: 'applied' | 'interviewing' | 'offered' | 'rejected'
+          company_id: string | null
+          url: string | null
+          description: string | null
+          location: string | null
+          posted_date: string | null
+          scraped_at: string | null
+          is_new: boolean | null
+          team: string | null
+          department: string | null
+          commitment: string | null
+          hiring_organization: string | null
+          employment_type: string | null
+          valid_through: string | null
+          salary_min: number | null
+          salary_max: number | null
+          salary_currency: string | null
+          salary_unit: string | null
+          canonical_url: string | null
+          fingerprint: string | null
+          last_seen_at: string | null
+          missed_runs: number
+          closed_at: string | null
         }
         Insert: {
           id?: string
@@ -25,6 +47,28 @@ export interface Database {
           company: string
           position: string
           status: 'applied' | 'interviewing' | 'offered' | 'rejected'
+          company_id?: string | null
+          url?: string | null
+          description?: string | null
+          location?: string | null
+          posted_date?: string | null
+          scraped_at?: string | null
+          is_new?: boolean | null
+          team?: string | null
+          department?: string | null
+          commitment?: string | null
+          hiring_organization?: string | null
+          employment_type?: string | null
+          valid_through?: string | null
+          salary_min?: number | null
+          salary_max?: number | null
+          salary_currency?: string | null
+          salary_unit?: string | null
+          canonical_url?: string | null
+          fingerprint?: string | null
+          last_seen_at?: string | null
+          missed_runs?: number
+          closed_at?: string | null
         }
         Update: {
           id?: string
@@ -33,6 +77,28 @@ export interface Database {
           company?: string
           position?: string
           status?: 'applied' | 'interviewing' | 'offered' | 'rejected'
+          company_id?: string | null
+          url?: string | null
+          description?: string | null
+          location?: string | null
+          posted_date?: string | null
+          scraped_at?: string | null
+          is_new?: boolean | null
+          team?: string | null
+          department?: string | null
+          commitment?: string | null
+          hiring_organization?: string | null
+          employment_type?: string | null
+          valid_through?: string | null
+          salary_min?: number | null
+          salary_max?: number | null
+          salary_currency?: string | null
+          salary_unit?: string | null
+          canonical_url?: string | null
+          fingerprint?: string | null
+          last_seen_at?: string | null
+          missed_runs?: number
+          closed_at?: string | null
         }
       }
       keywords: {
@@ -60,28 +126,44 @@ export interface Database {
         Row: {
           email_sent: boolean | null
           id: string
-          job_id: string
-          keyword_matched: string
+          job_id: string | null
+          keyword_matched: string | null
           sent_at: string
           user_id: string
+          company_id: string | null
+          message: string | null
+          type: string
         }
         Insert: {
           email_sent?: boolean | null
           id?: string
-          job_id: string
-          keyword_matched: string
+          job_id?: string | null
+          keyword_matched?: string | null
           sent_at?: string
           user_id: string
+          company_id?: string | null
+          message?: string | null
+          type?: string
         }
         Update: {
           email_sent?: boolean | null
           id?: string
-          job_id?: string
-          keyword_matched?: string
+          job_id?: string | null
+          keyword_matched?: string | null
           sent_at?: string
           user_id?: string
+          company_id?: string | null
+          message?: string | null
+          type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "notifications_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_companies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_job_id_fkey"
             columns: ["job_id"]
@@ -96,16 +178,262 @@ export interface Database {
           created_at: string
           email: string
           id: string
+          notify_on_posting_closed: boolean
         }
         Insert: {
           created_at?: string
           email: string
           id: string
+          notify_on_posting_closed?: boolean
         }
         Update: {
           created_at?: string
           email?: string
           id?: string
+          notify_on_posting_closed?: boolean
+        }
+        Relationships: []
+      }
+      scrape_hosts: {
+        Row: {
+          host: string
+          next_request_at: string
+          robots_fetched_at: string | null
+          robots_status: string | null
+          robots_txt: string | null
+        }
+        Insert: {
+          host: string
+          next_request_at?: string
+          robots_fetched_at?: string | null
+          robots_status?: string | null
+          robots_txt?: string | null
+        }
+        Update: {
+          host?: string
+          next_request_at?: string
+          robots_fetched_at?: string | null
+          robots_status?: string | null
+          robots_txt?: string | null
+        }
+        Relationships: []
+      }
+      scrape_locks: {
+        Row: {
+          acquired_at: string
+          expires_at: string
+          kind: string
+          name: string
+          run_id: string
+        }
+        Insert: {
+          acquired_at?: string
+          expires_at: string
+          kind: string
+          name: string
+          run_id: string
+        }
+        Update: {
+          acquired_at?: string
+          expires_at?: string
+          kind?: string
+          name?: string
+          run_id?: string
+        }
+        Relationships: []
+      }
+      scrape_queue: {
+        Row: {
+          attempts: number
+          available_at: string
+          company_id: string
+          created_at: string
+          finished_at: string | null
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          run_id: string | null
+          status: string
+          updated_at: string
+          last_error_category: string | null
+        }
+        Insert: {
+          attempts?: number
+          available_at?: string
+          company_id: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_id?: string | null
+          status?: string
+          updated_at?: string
+          last_error_category?: string | null
+        }
+        Update: {
+          attempts?: number
+          available_at?: string
+          company_id?: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          run_id?: string | null
+          status?: string
+          updated_at?: string
+          last_error_category?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrape_queue_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrape_queue_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "scrape_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_run_companies: {
+        Row: {
+          company_id: string | null
+          company_name: string
+          created_at: string
+          error: string | null
+          extractor: string | null
+          id: string
+          jobs_found: number
+          new_jobs: number
+          notifications_created: number
+          run_id: string
+          status: 'succeeded' | 'failed' | 'skipped'
+          user_id: string
+          unchanged: boolean
+          error_category: string | null
+          postings_closed: number
+          postings_reopened: number
+        }
+        Insert: {
+          company_id?: string | null
+          company_name: string
+          created_at?: string
+          error?: string | null
+          extractor?: string | null
+          id?: string
+          jobs_found?: number
+          new_jobs?: number
+          notifications_created?: number
+          run_id: string
+          status: 'succeeded' | 'failed' | 'skipped'
+          user_id: string
+          unchanged?: boolean
+          error_category?: string | null
+          postings_closed?: number
+          postings_reopened?: number
+        }
+        Update: {
+          company_id?: string | null
+          company_name?: string
+          created_at?: string
+          error?: string | null
+          extractor?: string | null
+          id?: string
+          jobs_found?: number
+          new_jobs?: number
+          notifications_created?: number
+          run_id?: string
+          status?: 'succeeded' | 'failed' | 'skipped'
+          user_id?: string
+          unchanged?: boolean
+          error_category?: string | null
+          postings_closed?: number
+          postings_reopened?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scrape_run_companies_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "scrape_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scrape_run_companies_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_runs: {
+        Row: {
+          companies_processed: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          new_jobs_found: number
+          notifications_sent: number
+          started_at: string
+          status: 'running' | 'completed' | 'failed'
+          trigger_source: 'scheduled' | 'manual'
+          triggered_by: string | null
+          companies_completed: number
+          companies_deferred: number
+          companies_failed: number
+          resume_cursor: string | null
+          resumed_at: string | null
+          companies_total: number | null
+        }
+        Insert: {
+          companies_processed?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          new_jobs_found?: number
+          notifications_sent?: number
+          started_at?: string
+          status?: 'running' | 'completed' | 'failed'
+          trigger_source: 'scheduled' | 'manual'
+          triggered_by?: string | null
+          companies_completed?: number
+          companies_deferred?: number
+          companies_failed?: number
+          resume_cursor?: string | null
+          resumed_at?: string | null
+          companies_total?: number | null
+        }
+        Update: {
+          companies_processed?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          new_jobs_found?: number
+          notifications_sent?: number
+          started_at?: string
+          status?: 'running' | 'completed' | 'failed'
+          trigger_source?: 'scheduled' | 'manual'
+          triggered_by?: string | null
+          companies_completed?: number
+          companies_deferred?: number
+          companies_failed?: number
+          resume_cursor?: string | null
+          resumed_at?: string | null
+          companies_total?: number | null
         }
         Relationships: []
       }
@@ -116,6 +444,25 @@ export interface Database {
           created_at: string
           id: string
           user_id: string
+          extraction_recipe: Json | null
+          consecutive_failures: number
+          last_error: string | null
+          last_scraped_at: string | null
+          last_success_at: string | null
+          paused_at: string | null
+          paused_reason: string | null
+          cron_expression: string | null
+          next_run_at: string | null
+          schedule: string
+          content_hash: string | null
+          etag: string | null
+          last_modified: string | null
+          listing_url: string | null
+          last_error_category: string | null
+          listing_key: string | null
+          max_pages: number | null
+          max_jobs: number | null
+          source_type: string
         }
         Insert: {
           career_page_url: string
@@ -123,6 +470,25 @@ export interface Database {
           created_at?: string
           id?: string
           user_id: string
+          extraction_recipe?: Json | null
+          consecutive_failures?: number
+          last_error?: string | null
+          last_scraped_at?: string | null
+          last_success_at?: string | null
+          paused_at?: string | null
+          paused_reason?: string | null
+          cron_expression?: string | null
+          next_run_at?: string | null
+          schedule?: string
+          content_hash?: string | null
+          etag?: string | null
+          last_modified?: string | null
+          listing_url?: string | null
+          last_error_category?: string | null
+          listing_key?: string | null
+          max_pages?: number | null
+          max_jobs?: number | null
+          source_type?: string
         }
         Update: {
           career_page_url?: string
@@ -130,6 +496,25 @@ export interface Database {
           created_at?: string
           id?: string
           user_id?: string
+          extraction_recipe?: Json | null
+          consecutive_failures?: number
+          last_error?: string | null
+          last_scraped_at?: string | null
+          last_success_at?: string | null
+          paused_at?: string | null
+          paused_reason?: string | null
+          cron_expression?: string | null
+          next_run_at?: string | null
+          schedule?: string
+          content_hash?: string | null
+          etag?: string | null
+          last_modified?: string | null
+          listing_url?: string | null
+          last_error_category?: string | null
+          listing_key?: string | null
+          max_pages?: number | null
+          max_jobs?: number | null
+          source_type?: string
         }
         Relationships: []
       }
@@ -138,7 +523,97 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acquire_scrape_lock: {
+        Args: { p_kind: string; p_run_id: string; p_ttl_seconds?: number }
+        Returns: {
+          acquired: boolean
+          holder_run_id: string
+        }[]
+      }
+      claim_scrape_tasks: {
+        Args: { p_worker: string; p_limit?: number; p_lease_seconds?: number }
+        Returns: {
+            attempts: number
+            available_at: string
+            company_id: string
+            created_at: string
+            finished_at: string | null
+            id: string
+            last_error: string | null
+            lease_expires_at: string | null
+            locked_by: string | null
+            max_attempts: number
+            run_id: string | null
+            status: string
+            updated_at: string
+          }[]
+      }
+      complete_scrape_task: {
+        Args: { p_task_id: string; p_worker: string }
+        Returns: boolean
+      }
+      enqueue_scrape_run: {
+        Args: {
+          p_company_ids?: string[] | null
+          p_max_attempts?: number
+          p_lock_ttl_seconds?: number
+        }
+        Returns: {
+          run_id: string
+          tasks_enqueued: number
+          lock_acquired: boolean
+        }[]
+      }
+      fail_scrape_task: {
+        Args: {
+          p_task_id: string
+          p_worker: string
+          p_error: string
+          p_retry_base_seconds?: number
+          p_error_category?: string | null
+          p_retryable?: boolean
+        }
+        Returns: string | null
+      }
+      finalize_scrape_runs: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      normalize_listing_key: {
+        Args: { p_url: string; p_recipe: Json }
+        Returns: string
+      }
+      record_job_sightings: {
+        Args: {
+          p_company_id: string
+          p_seen_fingerprints: string[] | null
+          p_close_after_missed_runs?: number
+        }
+        Returns: {
+          job_id: string
+          change: string
+        }[]
+      }
+      release_scrape_lock: {
+        Args: { p_run_id: string }
+        Returns: undefined
+      }
+      renew_scrape_task_leases: {
+        Args: {
+          p_task_ids: string[]
+          p_worker: string
+          p_lease_seconds?: number
+        }
+        Returns: string[]
+      }
+      reserve_host_request: {
+        Args: { p_host: string; p_interval_ms: number }
+        Returns: number
+      }
+      return_scrape_task: {
+        Args: { p_task_id: string; p_worker: string; p_delay_seconds?: number }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
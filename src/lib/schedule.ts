@@ -0,0 +1,37 @@
+// Schedule helpers for the dashboard, built on the same schedule module the
+// job-scheduler edge function uses so next run times agree
+import { nextRunAt, validateCron } from '../../supabase/functions/_shared/schedule.ts';
+import type { CompanySchedule } from '../../supabase/functions/_shared/schedule.ts';
+
+export type { CompanySchedule };
+
+export interface ScheduleDraft {
+  schedule: CompanySchedule;
+  cron_expression: string;
+}
+
+export const scheduleLabels: Record<CompanySchedule, string> = {
+  hourly: 'Hourly',
+  every_6_hours: 'Every 6 hours',
+  daily: 'Daily',
+  cron: 'Custom (cron)',
+};
+
+// The error to show for the draft, if any, and when it would next run if saved now
+export const evaluateSchedule = (draft: ScheduleDraft): { error: string | null; nextRun: Date | null } => {
+  if (draft.schedule === 'cron') {
+    const expression = draft.cron_expression.trim();
+    const error = expression ? validateCron(expression) : 'Enter a cron expression';
+    if (error) return { error, nextRun: null };
+
+    const nextRun = nextRunAt('cron', expression, new Date());
+    return nextRun ? { error: null, nextRun } : { error: 'This expression never matches a date', nextRun: null };
+  }
+  return { error: null, nextRun: nextRunAt(draft.schedule, null, new Date()) };
+};
+
+// Column values to save for the draft
+export const scheduleColumns = (draft: ScheduleDraft) => ({
+  schedule: draft.schedule,
+  cron_expression: draft.schedule === 'cron' ? draft.cron_expression.trim() : null,
+});
@@ -0,0 +1,64 @@
+// Dashboard wording for scrape error categories, built on the same module the
+// scraper uses to decide which failures are retried
+import { isTransientError } from '../../supabase/functions/_shared/errors.ts';
+import type { ScrapeErrorCategory } from '../../supabase/functions/_shared/errors.ts';
+
+export interface ScrapeErrorDescription {
+  label: string;
+  hint: string;
+  transient: boolean;
+}
+
+const RETRY_HINT = 'This is usually temporary. Scheduled runs retry it automatically.';
+
+const descriptions: Record<ScrapeErrorCategory, Omit<ScrapeErrorDescription, 'transient'>> = {
+  robots: {
+    label: 'Blocked by robots.txt',
+    hint: "The site's robots.txt does not allow the scraper to read this career page, so it is skipped.",
+  },
+  dns: {
+    label: 'Domain not found',
+    hint: 'The domain could not be resolved. Scheduled runs retry it automatically; if it keeps failing, check the career page URL for typos.',
+  },
+  timeout: {
+    label: 'Timed out',
+    hint: `The site took too long to respond. ${RETRY_HINT}`,
+  },
+  network: {
+    label: 'Connection failed',
+    hint: `The connection to the site failed. ${RETRY_HINT}`,
+  },
+  rate_limited: {
+    label: 'Rate limited',
+    hint: `The site asked the scraper to slow down. ${RETRY_HINT}`,
+  },
+  server: {
+    label: 'Server error',
+    hint: `The site returned a server error. ${RETRY_HINT}`,
+  },
+  blocked: {
+    label: 'Access denied',
+    hint: 'The site refused the request. It may not allow automated access to this page.',
+  },
+  not_found: {
+    label: 'Page not found',
+    hint: 'The career page no longer exists. Update the URL to keep tracking this company.',
+  },
+  http: {
+    label: 'Request rejected',
+    hint: 'The site rejected the request. Check that the career page URL is correct.',
+  },
+  parse: {
+    label: 'Unreadable response',
+    hint: 'The page or job board returned something the scraper could not read. A custom extraction recipe may help.',
+  },
+  unsupported: {
+    label: 'Wrong source type',
+    hint: 'The career page URL is not the kind of source this company is set to read. Change the source type or the URL.',
+  },
+};
+
+export const describeScrapeError = (category: string | null | undefined): ScrapeErrorDescription | null => {
+  const description = category ? descriptions[category as ScrapeErrorCategory] : undefined;
+  return description ? { ...description, transient: isTransientError(category) } : null;
+};
@@ -0,0 +1,24 @@
+// Source type wording for the dashboard, built on the same module the scraper
+// uses to decide how a career page URL is read
+import type { SourceType } from '../../supabase/functions/_shared/sources.ts';
+
+export { SOURCE_TYPES, readsPages } from '../../supabase/functions/_shared/sources.ts';
+export type { SourceType };
+
+export const sourceTypeLabels: Record<SourceType, string> = {
+  auto: 'Detect automatically',
+  html: 'Career page',
+  feed: 'RSS, Atom or JSON feed',
+  greenhouse: 'Greenhouse board',
+  lever: 'Lever board',
+  workday: 'Workday site',
+};
+
+export const sourceTypeHints: Record<SourceType, string> = {
+  auto: 'Recognises Greenhouse, Lever and Workday boards and job feeds, and reads anything else as a career page.',
+  html: 'Reads the page itself, even if it embeds a job board.',
+  feed: 'Paste the URL of a feed of openings. Each item is tracked by its GUID.',
+  greenhouse: 'Paste the board URL, e.g. https://boards.greenhouse.io/acme.',
+  lever: 'Paste the board URL, e.g. https://jobs.lever.co/acme.',
+  workday: 'Paste the career site URL, e.g. https://acme.wd5.myworkdayjobs.com/External.',
+};
@@ -0,0 +1,98 @@
+// Authentication for service-to-service calls (cron -> job-scheduler -> job-scraper).
+// A caller proves itself with either:
+//   x-scrape-token: <SCRAPER_SERVICE_TOKEN>
+//   x-scrape-signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" keyed with SCRAPER_SIGNING_SECRET>
+
+export const TOKEN_HEADER = 'x-scrape-token';
+export const SIGNATURE_HEADER = 'x-scrape-signature';
+
+// Signed requests older (or further in the future) than this are rejected as replays
+const REPLAY_WINDOW_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function hmacHex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function hasServiceCredentials(req: Request): boolean {
+  return req.headers.has(TOKEN_HEADER) || req.headers.has(SIGNATURE_HEADER);
+}
+
+export async function signBody(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+// Headers for an outgoing service call: signed when a signing secret is
+// configured, otherwise the shared service token
+export async function serviceAuthHeaders(body: string): Promise<Record<string, string>> {
+  const secret = Deno.env.get('SCRAPER_SIGNING_SECRET');
+  if (secret) {
+    return { [SIGNATURE_HEADER]: await signBody(body, secret) };
+  }
+
+  const token = Deno.env.get('SCRAPER_SERVICE_TOKEN');
+  if (token) {
+    return { [TOKEN_HEADER]: token };
+  }
+
+  throw new Error('Set SCRAPER_SIGNING_SECRET or SCRAPER_SERVICE_TOKEN to authenticate service calls');
+}
+
+// Resolves to null when the request is authentic, otherwise to the reason it was rejected
+export async function verifyServiceRequest(req: Request, rawBody: string): Promise<string | null> {
+  const token = req.headers.get(TOKEN_HEADER);
+  if (token) {
+    const expected = Deno.env.get('SCRAPER_SERVICE_TOKEN');
+    if (!expected) {
+      return 'Service token authentication is not configured';
+    }
+    return timingSafeEqual(token, expected) ? null : 'Invalid service token';
+  }
+
+  const signature = req.headers.get(SIGNATURE_HEADER);
+  if (signature) {
+    const secret = Deno.env.get('SCRAPER_SIGNING_SECRET');
+    if (!secret) {
+      return 'Request signing is not configured';
+    }
+
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => part.trim().split('=', 2) as [string, string])
+    );
+    const timestamp = parseInt(parts.t, 10);
+    if (!Number.isFinite(timestamp) || !parts.v1) {
+      return `Malformed ${SIGNATURE_HEADER} header, expected t=<timestamp>,v1=<signature>`;
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > REPLAY_WINDOW_SECONDS) {
+      return `Signature timestamp is outside the ${REPLAY_WINDOW_SECONDS} second window`;
+    }
+
+    const expected = await hmacHex(secret, `${timestamp}.${rawBody}`);
+    return timingSafeEqual(parts.v1, expected) ? null : 'Invalid request signature';
+  }
+
+  return `Missing ${TOKEN_HEADER} or ${SIGNATURE_HEADER} header`;
+}
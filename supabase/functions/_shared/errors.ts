@@ -0,0 +1,30 @@
+// Why a scrape failed. This module has no dependencies so the dashboard can
+// import it too and explain each category the same way the scraper treats it.
+
+export type ScrapeErrorCategory =
+  | 'robots'
+  | 'dns'
+  | 'timeout'
+  | 'network'
+  | 'rate_limited'
+  | 'server'
+  | 'blocked'
+  | 'not_found'
+  | 'http'
+  | 'parse'
+  | 'unsupported';
+
+// Failures that may well go away on their own, so they are worth retrying.
+// A DNS failure is as often a resolver hiccup as a mistyped domain, so it gets
+// the queue's retries too; a domain that really doesn't exist runs out of them.
+// Everything else needs someone to change the URL, recipe or site settings.
+const TRANSIENT_CATEGORIES = new Set<ScrapeErrorCategory>(['dns', 'timeout', 'network', 'rate_limited', 'server']);
+
+export function isTransientError(category: string | null | undefined): boolean {
+  return !!category && TRANSIENT_CATEGORIES.has(category as ScrapeErrorCategory);
+}
+
+// Uncategorised errors (e.g. a database hiccup) are treated as transient
+export function isPermanentError(category: string | null | undefined): boolean {
+  return !!category && !TRANSIENT_CATEGORIES.has(category as ScrapeErrorCategory);
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+// Scheduled and manual runs take turns through the lease in the scrape_locks
+// table (see the scrape_run_lock migration). A holder that dies stops
+// renewing, and the lock can be taken over once its lease has gone stale.
+export const LOCK_TTL_SECONDS = parseInt(Deno.env.get('SCRAPER_LOCK_TTL_SECONDS') ?? '600', 10);
+
+export type LockKind = 'scheduled' | 'manual';
+
+export interface LockResult {
+  acquired: boolean;
+  holder_run_id: string | null;
+}
+
+export interface RunProgress {
+  run_id: string;
+  trigger_source: string | null;
+  started_at: string | null;
+  companies_total: number | null;
+  companies_done: number;
+}
+
+export async function acquireRunLock(supabase: SupabaseClient, kind: LockKind, runId: string): Promise<LockResult> {
+  const { data, error } = await supabase
+    .rpc('acquire_scrape_lock', {
+      p_kind: kind,
+      p_run_id: runId,
+      p_ttl_seconds: LOCK_TTL_SECONDS,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Error acquiring scrape lock: ${error.message}`);
+  }
+  return data;
+}
+
+export async function releaseRunLock(supabase: SupabaseClient, runId: string) {
+  const { error } = await supabase.rpc('release_scrape_lock', { p_run_id: runId });
+
+  if (error) {
+    console.error('Error releasing scrape lock:', error);
+  }
+}
+
+// How far along the run holding the lock is, for callers that were turned away
+export async function getRunProgress(supabase: SupabaseClient, runId: string): Promise<RunProgress> {
+  const { data: run } = await supabase
+    .from('scrape_runs')
+    .select('trigger_source, started_at, companies_total')
+    .eq('id', runId)
+    .maybeSingle();
+
+  // Queue runs are done with a company once its task settles; manual runs
+  // record each company as they finish it
+  const { count } = run?.trigger_source === 'scheduled'
+    ? await supabase
+      .from('scrape_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('run_id', runId)
+      .in('status', ['succeeded', 'dead'])
+    : await supabase
+      .from('scrape_run_companies')
+      .select('id', { count: 'exact', head: true })
+      .eq('run_id', runId);
+
+  return {
+    run_id: runId,
+    trigger_source: run?.trigger_source ?? null,
+    started_at: run?.started_at ?? null,
+    companies_total: run?.companies_total ?? null,
+    companies_done: count ?? 0,
+  };
+}
@@ -0,0 +1,167 @@
+// Scrape schedules for tracked companies. This module has no dependencies so
+// the dashboard can import it too and show the same next run times the
+// scheduler will use. Cron expressions are evaluated in UTC.
+
+export type CompanySchedule = 'hourly' | 'every_6_hours' | 'daily' | 'cron';
+
+export const SCHEDULE_INTERVALS_MS: Record<Exclude<CompanySchedule, 'cron'>, number> = {
+  hourly: 60 * 60 * 1000,
+  every_6_hours: 6 * 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted. A field
+  // written with "*" (including steps such as "*/2") is not restricted.
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up looking for a matching time after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : parseInt(start, 10);
+    // "5/15" means every 15 starting at 5, as in most cron implementations
+    const to = range === '*' ? max : end !== undefined ? parseInt(end, 10) : step ? max : from;
+    const increment = step ? parseInt(step, 10) : 1;
+
+    if (from < min || to > max || from > to) {
+      throw new Error(`${name} "${part}" must be between ${min} and ${max}`);
+    }
+    if (increment < 1) {
+      throw new Error(`Invalid ${name} step "${part}"`);
+    }
+
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseCronField(field, CRON_FIELDS[index]));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].includes('*'),
+    dayOfWeekRestricted: !fields[4].includes('*'),
+  };
+}
+
+// Resolves to null when the expression is valid, otherwise to what is wrong with it
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getUTCDay());
+
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// The first minute strictly after `after` that matches the expression, or
+// null if none does within the next few years
+export function nextCronRun(expression: string, after: Date): Date | null {
+  const fields = parseCron(expression);
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * SCHEDULE_INTERVALS_MS.daily;
+
+  // Skip ahead a whole month, day or hour at a time when that unit cannot match
+  while (candidate.getTime() <= limit) {
+    if (!fields.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(fields, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!fields.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!fields.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+// When a company should next be scraped. Interval schedules keep to their
+// original slots (previous + interval, skipping any that were missed) so they
+// don't drift later by however late each scheduler tick fires.
+export function nextRunAt(
+  schedule: CompanySchedule,
+  cronExpression: string | null,
+  now: Date,
+  previousRunAt: Date | null = null
+): Date | null {
+  if (schedule === 'cron') {
+    return cronExpression ? nextCronRun(cronExpression, now) : null;
+  }
+
+  const interval = SCHEDULE_INTERVALS_MS[schedule];
+  if (!previousRunAt) {
+    return new Date(now.getTime() + interval);
+  }
+
+  const missed = Math.max(0, Math.floor((now.getTime() - previousRunAt.getTime()) / interval));
+  return new Date(previousRunAt.getTime() + (missed + 1) * interval);
+}
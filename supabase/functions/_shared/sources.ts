@@ -0,0 +1,19 @@
+// Where a tracked company's jobs are read from. This module has no
+// dependencies so the dashboard can import it too.
+//
+// `auto` recognises Greenhouse, Lever and Workday board URLs and feeds, and
+// reads anything else as a career page. The other types skip detection.
+export type SourceType = 'auto' | 'html' | 'feed' | 'greenhouse' | 'lever' | 'workday';
+
+export const SOURCE_TYPES: SourceType[] = ['auto', 'html', 'feed', 'greenhouse', 'lever', 'workday'];
+
+// Types that read a hosted job board's API and so need that board's URL
+export function isAtsSource(sourceType: SourceType): boolean {
+  return sourceType === 'greenhouse' || sourceType === 'lever' || sourceType === 'workday';
+}
+
+// Feeds and board APIs return their whole listing in one response, so only
+// career pages have further pages to read
+export function readsPages(sourceType: SourceType): boolean {
+  return sourceType === 'auto' || sourceType === 'html';
+}
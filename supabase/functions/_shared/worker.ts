@@ -0,0 +1,26 @@
+import { serviceAuthHeaders } from './auth.ts';
+
+const scraperUrl = `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/job-scraper`;
+
+// Starts a job-scraper worker that drains the scrape queue. The worker
+// acknowledges straight away and does its draining in the background, so this
+// resolves as soon as the worker has been started.
+export async function invokeScraperWorker(): Promise<void> {
+  const body = JSON.stringify({
+    worker: true,
+    timestamp: new Date().toISOString()
+  });
+  const response = await fetch(scraperUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await serviceAuthHeaders(body)),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || data?.error || `Job scraper responded with status ${response.status}`);
+  }
+}
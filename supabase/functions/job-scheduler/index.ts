@@ -1,6 +1,10 @@
-
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { verifyServiceRequest } from '../_shared/auth.ts';
+import { LOCK_TTL_SECONDS, getRunProgress } from '../_shared/lock.ts';
+import { nextRunAt } from '../_shared/schedule.ts';
+import type { CompanySchedule } from '../_shared/schedule.ts';
+import { invokeScraperWorker } from '../_shared/worker.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,36 +13,169 @@ const corsHeaders = {
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
-  Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+// How many job-scraper workers to start per run, and how many times a
+// company's task is attempted before it is dead-lettered
+const SCRAPER_WORKERS = parseInt(Deno.env.get('SCRAPER_WORKERS') ?? '2', 10);
+const SCRAPER_MAX_ATTEMPTS = parseInt(Deno.env.get('SCRAPER_MAX_ATTEMPTS') ?? '3', 10);
+
+interface ScheduledCompany {
+  id: string;
+  schedule: CompanySchedule;
+  cron_expression: string | null;
+  next_run_at: string | null;
+}
+
+async function findDueCompanies(now: Date): Promise<ScheduledCompany[]> {
+  const { data, error } = await supabase
+    .from('tracked_companies')
+    .select('id, schedule, cron_expression, next_run_at')
+    .is('paused_at', null)
+    .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Moves each enqueued company on to its next slot. A cron expression that
+// can't be evaluated falls back to daily rather than firing on every tick.
+async function advanceSchedules(companies: ScheduledCompany[], now: Date) {
+  await Promise.all(companies.map(async (company) => {
+    let next: Date | null = null;
+    try {
+      next = nextRunAt(company.schedule, company.cron_expression, now, company.next_run_at ? new Date(company.next_run_at) : null);
+    } catch (error) {
+      console.error(`Invalid schedule for company ${company.id}:`, error.message);
+    }
+    if (!next) {
+      next = nextRunAt('daily', null, now);
+    }
+
+    const { error } = await supabase
+      .from('tracked_companies')
+      .update({ next_run_at: next.toISOString() })
+      .eq('id', company.id);
+
+    if (error) {
+      console.error(`Error scheduling next run for company ${company.id}:`, error);
+    }
+  }));
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Only cron (or an operator) holding the service token or signing secret may trigger a run
+  const rawBody = req.method === 'POST' ? await req.text() : '';
+  const rejection = await verifyServiceRequest(req, rawBody);
+  if (rejection) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'unauthorized',
+        message: rejection
+      }),
+      {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+      }
+    );
+  }
+
   try {
-    console.log('Scheduler triggered, invoking job scraper...');
+    // An operator can re-run specific companies (say, ones that were
+    // dead-lettered) by passing their ids; otherwise the companies whose
+    // schedule has come due are queued
+    let companyIds: string[] | null = null;
+    try {
+      companyIds = rawBody ? JSON.parse(rawBody).company_ids ?? null : null;
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Request body must be valid JSON' }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders
+          },
+        }
+      );
+    }
+
+    console.log('Scheduler triggered, enqueueing scrape tasks...');
     
-    // Call the job scraper function
-    const { data, error } = await supabase.functions.invoke('job-scraper', {
-      body: { 
-        scheduled: true, 
-        timestamp: new Date().toISOString() 
-      }
-    });
+    const now = new Date();
+    const dueCompanies = companyIds ? [] : await findDueCompanies(now);
+    const enqueueIds = companyIds ?? dueCompanies.map(company => company.id);
     
-    if (error) {
-      throw error;
+    let enqueued = { run_id: null as string | null, tasks_enqueued: 0 };
+    if (enqueueIds.length > 0) {
+      const { data, error: enqueueError } = await supabase
+        .rpc('enqueue_scrape_run', {
+          p_company_ids: enqueueIds,
+          p_max_attempts: SCRAPER_MAX_ATTEMPTS,
+          p_lock_ttl_seconds: LOCK_TTL_SECONDS,
+        })
+        .single();
+      
+      if (enqueueError) {
+        throw enqueueError;
+      }
+      
+      // A manual run holds the lock; the due companies stay due for the next tick
+      if (!data.lock_acquired) {
+        console.log(`Run ${data.run_id} is already in progress, skipping this tick`);
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'run_in_progress',
+          message: 'A scrape run is already in progress',
+          run: await getRunProgress(supabase, data.run_id)
+        }), {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        });
+      }
+      enqueued = data;
+      
+      // Only scheduled companies move on; a re-run leaves their schedule alone
+      await advanceSchedules(dueCompanies, now);
     }
     
-    console.log('Job scraper completed:', data);
+    console.log(`${enqueueIds.length} companies due, enqueued ${enqueued.tasks_enqueued} tasks for run ${enqueued.run_id ?? '(none)'}`);
+    
+    // Start at least one worker even when nothing new was queued, so retries
+    // that have come due from earlier runs are picked up
+    const workerCount = Math.max(1, Math.min(SCRAPER_WORKERS, enqueued.tasks_enqueued));
+    const workers = await Promise.allSettled(
+      Array.from({ length: workerCount }, () => invokeScraperWorker())
+    );
+    workers
+      .filter((worker): worker is PromiseRejectedResult => worker.status === 'rejected')
+      .forEach(worker => console.error('Error starting scraper worker:', worker.reason));
+    
+    const workersStarted = workers.filter(worker => worker.status === 'fulfilled').length;
+    if (workersStarted === 0) {
+      throw new Error('No scraper workers could be started; tasks stay queued for the next run');
+    }
     
     return new Response(JSON.stringify({
       success: true,
-      message: 'Scheduled scraping completed',
-      scraper_result: data
+      message: 'Scrape run enqueued',
+      run_id: enqueued.run_id,
+      companies_due: enqueueIds.length,
+      tasks_enqueued: enqueued.tasks_enqueued,
+      workers_started: workersStarted
     }), {
       status: 200,
       headers: {
@@ -0,0 +1,48 @@
+import { sha256Hex } from './fingerprint.ts';
+import { politeFetch } from './http.ts';
+import type { HttpValidators, Job } from './types.ts';
+
+export interface ConditionalResponse {
+  // Null when the server answered 304 Not Modified
+  response: Response | null;
+  validators: HttpValidators;
+}
+
+// Sends If-None-Match / If-Modified-Since when the cached validators belong to
+// this same URL (they may have come from another listing source last time)
+export async function fetchConditional(url: string, init: RequestInit, cached?: HttpValidators | null): Promise<ConditionalResponse> {
+  const headers = new Headers(init.headers);
+  const revalidate = cached?.url === url;
+  if (revalidate && cached.etag) {
+    headers.set('If-None-Match', cached.etag);
+  }
+  if (revalidate && cached.last_modified) {
+    headers.set('If-Modified-Since', cached.last_modified);
+  }
+
+  const response = await politeFetch(url, { ...init, headers });
+  if (revalidate && response.status === 304) {
+    return { response: null, validators: cached };
+  }
+
+  return {
+    response,
+    validators: {
+      url,
+      etag: response.headers.get('ETag'),
+      last_modified: response.headers.get('Last-Modified'),
+    },
+  };
+}
+
+// SHA-256 over the parts of each job the diff cares about, in a stable order.
+// Posted dates are left out because several extractors default them to the
+// time of the scrape.
+export async function hashJobListing(jobs: Job[]): Promise<string> {
+  const normalized = jobs
+    .map(job => [job.title, job.url, job.location].map(value => (value || '').trim().toLowerCase()).join('\u0000'))
+    .sort()
+    .join('\n');
+
+  return await sha256Hex(normalized);
+}
@@ -0,0 +1,137 @@
+import { HttpStatusError } from './errors.ts';
+import type { Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { extractPostedDate, normalizeText, parseHtml } from './extractors/dom.ts';
+import { collectJobPostings, extractJsonLdBlocks, parseJsonLdJobPosting } from './extractors/jsonld.ts';
+import { canonicalizeUrl } from './fingerprint.ts';
+import { politeFetch } from './http.ts';
+import { htmlToText } from './text.ts';
+import type { Job } from './types.ts';
+
+// Detail pages fetched per listing per run. New postings beyond this keep what
+// the listing showed; later runs don't revisit them.
+const MAX_DETAIL_FETCHES = parseInt(Deno.env.get('SCRAPER_MAX_DETAIL_FETCHES') ?? '10', 10);
+
+// Shorter blocks are more likely a teaser or a sidebar than the posting itself
+const MIN_DESCRIPTION_LENGTH = 200;
+
+// Tried in order for the element holding the posting's description
+const descriptionSelectors = [
+  '[itemprop="description"]',
+  '[class*="description"]',
+  '[id*="description"]',
+  '[class*="job-details"]',
+  '[class*="posting"]',
+  'article',
+  'main',
+];
+const locationSelector = '[itemprop="jobLocation"], [class*="location"], [class*="Location"]';
+const employmentTypeSelector = '[itemprop="employmentType"], [class*="employment-type"], [class*="commitment"]';
+// Unlike on listings the page header is kept: it often holds the location and date
+const noiseContainers = 'script, style, noscript, template, svg, nav, footer';
+
+export type JobDetails = Pick<Job,
+  'description' | 'location' | 'posted_date' | 'employment_type' | 'hiring_organization' |
+  'valid_through' | 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_unit'
+>;
+
+// Reads a job's own page: its JobPosting JSON-LD when there is one, otherwise
+// the description, location and date found in the markup. `posted_date` is
+// only set when the page states it.
+export function parseJobDetails(html: string, pageUrl: string): JobDetails {
+  const [posting] = collectJobPostings(extractJsonLdBlocks(html));
+  const job = posting ? parseJsonLdJobPosting(posting, pageUrl) : null;
+  if (job) {
+    return {
+      description: job.description,
+      location: job.location,
+      posted_date: posting.datePosted ? job.posted_date : undefined,
+      employment_type: job.employment_type,
+      hiring_organization: job.hiring_organization,
+      valid_through: job.valid_through,
+      salary_min: job.salary_min,
+      salary_max: job.salary_max,
+      salary_currency: job.salary_currency,
+      salary_unit: job.salary_unit,
+    };
+  }
+
+  const document = parseHtml(html);
+  if (!document?.body) return {};
+  for (const noise of Array.from(document.querySelectorAll(noiseContainers))) {
+    (noise as Element).remove();
+  }
+
+  const container = descriptionSelectors
+    .map(selector => document.querySelector(selector))
+    .find(element => element && normalizeText(element.textContent).length >= MIN_DESCRIPTION_LENGTH);
+
+  return {
+    description: container ? htmlToText(container.innerHTML) : undefined,
+    location: normalizeText(document.querySelector(locationSelector)?.textContent) || undefined,
+    posted_date: extractPostedDate(document.body),
+    employment_type: normalizeText(document.querySelector(employmentTypeSelector)?.textContent) || undefined,
+  };
+}
+
+async function fetchJobDetails(url: string): Promise<JobDetails> {
+  const response = await politeFetch(url, {
+    headers: { 'Accept': 'text/html,application/xhtml+xml' }
+  });
+  if (!response.ok) {
+    throw new HttpStatusError(url, response.status);
+  }
+  return parseJobDetails(await response.text(), url);
+}
+
+// Only postings with a page of their own that the listing said little about
+// are worth a request
+function needsDetails(job: Job, listingUrl: string): boolean {
+  if (!job.url || job.description) return false;
+  return canonicalizeUrl(job.url) !== canonicalizeUrl(listingUrl);
+}
+
+// The listing's values win, except for the posted date: the posting's own page
+// knows it, where the listing's is often just the time of the scrape
+function mergeDetails(job: Job, details: JobDetails): Job {
+  return {
+    ...job,
+    description: job.description || details.description,
+    location: job.location || details.location,
+    posted_date: details.posted_date || job.posted_date,
+    employment_type: job.employment_type || details.employment_type,
+    hiring_organization: job.hiring_organization || details.hiring_organization,
+    valid_through: job.valid_through || details.valid_through,
+    salary_min: job.salary_min ?? details.salary_min,
+    salary_max: job.salary_max ?? details.salary_max,
+    salary_currency: job.salary_currency || details.salary_currency,
+    salary_unit: job.salary_unit || details.salary_unit,
+  };
+}
+
+export type DetailFetcher = (job: Job) => Promise<Job>;
+
+// Returns a function that fills in a new posting from its detail page. Pages
+// are fetched at most once per listing per run, so companies sharing a listing
+// share the requests, and at most MAX_DETAIL_FETCHES of them. A page that
+// can't be read leaves the posting as the listing described it.
+export function createDetailFetcher(listingUrl: string): DetailFetcher {
+  const pages = new Map<string, Promise<JobDetails | null>>();
+
+  return async (job: Job) => {
+    if (!needsDetails(job, listingUrl)) return job;
+
+    const url = job.url as string;
+    let page = pages.get(url);
+    if (!page) {
+      if (pages.size >= MAX_DETAIL_FETCHES) return job;
+      page = fetchJobDetails(url).catch(error => {
+        console.warn(`Could not read job details from ${url}:`, error.message);
+        return null;
+      });
+      pages.set(url, page);
+    }
+
+    const details = await page;
+    return details ? mergeDetails(job, details) : job;
+  };
+}
@@ -0,0 +1,46 @@
+import type { Job } from './types.ts';
+
+export async function sendNotificationEmail(userEmail: string, job: Job, keyword: string, companyName: string) {
+  try {
+    // For now, we'll just log the notification
+    // In production, you would integrate with a service like Resend, SendGrid, etc.
+    console.log(`📧 Email notification would be sent to ${userEmail}:`);
+    console.log(`Subject: 🎯 New Job Match: ${job.title} at ${companyName}`);
+    console.log(`Matched keyword: "${keyword}"`);
+    console.log(`Job URL: ${job.url}`);
+    
+    // Simulate successful email sending
+    return true;
+  } catch (error) {
+    console.error('Email sending error:', error);
+    return false;
+  }
+}
+
+export async function sendCompanyPausedEmail(userEmail: string, companyName: string, failures: number, lastError: string) {
+  try {
+    // Logged only, like job match emails, until an email provider is wired in
+    console.log(`📧 Email notification would be sent to ${userEmail}:`);
+    console.log(`Subject: ⏸️ Tracking paused for ${companyName}`);
+    console.log(`The career page failed ${failures} times in a row. Last error: ${lastError}`);
+    
+    return true;
+  } catch (error) {
+    console.error('Email sending error:', error);
+    return false;
+  }
+}
+
+export async function sendPostingClosedEmail(userEmail: string, companyName: string, position: string, daysLive: number) {
+  try {
+    // Logged only, like job match emails, until an email provider is wired in
+    console.log(`📧 Email notification would be sent to ${userEmail}:`);
+    console.log(`Subject: 📪 ${position} at ${companyName} was taken down`);
+    console.log(`The posting was live for ${daysLive} day${daysLive === 1 ? '' : 's'}.`);
+    
+    return true;
+  } catch (error) {
+    console.error('Email sending error:', error);
+    return false;
+  }
+}
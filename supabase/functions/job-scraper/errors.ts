@@ -0,0 +1,61 @@
+import type { ScrapeErrorCategory } from '../_shared/errors.ts';
+
+// Errors thrown while fetching or reading a listing carry the category that is
+// stored with the run and decides whether the scrape is retried
+
+export class ScrapeError extends Error {
+  readonly category: ScrapeErrorCategory;
+
+  constructor(message: string, category: ScrapeErrorCategory) {
+    super(message);
+    this.name = 'ScrapeError';
+    this.category = category;
+  }
+}
+
+export class RobotsDisallowedError extends ScrapeError {
+  constructor(message: string) {
+    super(message, 'robots');
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+export function categorizeStatus(status: number): ScrapeErrorCategory {
+  if (status === 404 || status === 410) return 'not_found';
+  if (status === 401 || status === 403 || status === 451) return 'blocked';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'http';
+}
+
+export class HttpStatusError extends ScrapeError {
+  readonly status: number;
+
+  constructor(url: string, status: number) {
+    super(`${url} responded with HTTP ${status}`, categorizeStatus(status));
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+// Deno reports failed lookups and connections as TypeErrors from fetch
+const dnsFailure = /dns error|failed to lookup|name or service not known|no address associated|nodename nor servname/i;
+const connectionFailure = /error sending request|connection|connect error|tcp|tls|certificate|broken pipe/i;
+
+export function categorizeError(error: unknown): ScrapeErrorCategory | undefined {
+  if (error instanceof ScrapeError) {
+    return error.category;
+  }
+  if (error instanceof SyntaxError) {
+    // response.json() on something that isn't JSON
+    return 'parse';
+  }
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return 'timeout';
+  }
+  if (error instanceof TypeError) {
+    if (dnsFailure.test(error.message)) return 'dns';
+    if (connectionFailure.test(error.message)) return 'network';
+  }
+  return undefined;
+}
@@ -0,0 +1,234 @@
+import { DOMParser, type Element, type HTMLDocument } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import type { Job } from '../types.ts';
+
+// Repeated structures shorter than this are more likely nav menus than listings
+const MIN_LISTING_SIZE = 2;
+const MIN_LISTING_SCORE = 0.45;
+// How far above an anchor we look for the element that repeats per job
+const MAX_ITEM_DEPTH = 5;
+
+const jobLinkPattern = /job|career|position|opening|posting|vacanc|role|apply|requisition|\/jobs?\/|[?&](?:gh_jid|jobid|job_id|id)=|\/\d{4,}/i;
+const jobTitlePattern = /engineer|developer|scientist|analyst|manager|lead|senior|junior|intern|designer|architect|specialist|coordinator|director|consultant|administrator|associate|officer|technician|representative|assistant|head of|vp\b|recruiter|writer|product|marketing|sales|support|operations|accountant|counsel/i;
+const locationClassPattern = /location|city|office|place|region|country/i;
+const dateClassPattern = /date|posted|time/i;
+const titleClassPattern = /title|name|position|role|heading/i;
+const ignoredLinkText = /^(apply( now)?|learn more|read more|see more|view (all|more)( jobs| openings| positions)?|details|more info|view job|next|previous|back)$/i;
+const noiseContainers = 'script, style, noscript, template, svg, nav, header, footer';
+
+interface ListingItem {
+  item: Element;
+  anchor: Element;
+}
+
+export function parseHtml(html: string): HTMLDocument | null {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+export function normalizeText(value: string | null | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+// Resolves a link against the page it was found on. Only http(s) links are
+// kept: anything else (javascript:, data:, mailto:...) is not a job page and
+// must never reach the dashboard as a clickable link.
+export function resolveHref(href: string | null, pageUrl: string): string | null {
+  if (!href) return null;
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return null;
+  }
+  try {
+    const url = new URL(trimmed, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isPlausibleTitle(title: string): boolean {
+  const lower = title.toLowerCase();
+  return title.length >= 4 &&
+    title.length <= 150 &&
+    /[a-zA-Z]/.test(title) &&
+    !ignoredLinkText.test(title) &&
+    !lower.includes('cookie') &&
+    !lower.includes('privacy');
+}
+
+function signature(element: Element): string {
+  const classes = (element.getAttribute('class') || '')
+    .split(/\s+/)
+    .filter(name => name && !/\d/.test(name))
+    .sort()
+    .join('.');
+  return `${element.tagName.toLowerCase()}${classes ? `.${classes}` : ''}`;
+}
+
+// Two links inside one entry (title and "Apply") share a signature but not a
+// shape, so include the first child when deciding whether siblings repeat
+function shape(element: Element): string {
+  const firstChild = element.firstElementChild;
+  return `${signature(element)}(${firstChild ? signature(firstChild) : ''})`;
+}
+
+function pathSignature(element: Element | null, depth = 3): string {
+  const parts: string[] = [];
+  for (let node = element; node && parts.length < depth; node = node.parentElement) {
+    parts.unshift(signature(node));
+  }
+  return parts.join('>');
+}
+
+// Climbs from an anchor to the first ancestor that repeats among its siblings;
+// that ancestor is one listing entry and its siblings are the other jobs
+function findListingItem(anchor: Element): { item: Element; key: string } | null {
+  let node: Element | null = anchor;
+  for (let depth = 0; node && node.parentElement && depth < MAX_ITEM_DEPTH; depth++) {
+    const parent: Element = node.parentElement;
+    // Cells repeat across a row, but the row is the entry
+    if (/^(td|th)$/i.test(node.tagName)) {
+      node = parent;
+      continue;
+    }
+    const nodeShape = shape(node);
+    const repeats = Array.from(parent.children).filter(sibling => shape(sibling as Element) === nodeShape).length;
+    if (repeats >= MIN_LISTING_SIZE) {
+      return { item: node, key: `${pathSignature(parent)}>${signature(node)}` };
+    }
+    node = parent;
+  }
+  return null;
+}
+
+// The first element marked by `pattern` that doesn't wrap another marked
+// element, so a "position-link" around "position-name" yields the name
+function findByClass(item: Element, pattern: RegExp): Element | null {
+  const marked = Array.from(item.querySelectorAll('[class], [data-testid]'))
+    .map(candidate => candidate as Element)
+    .filter(element => {
+      const marker = `${element.getAttribute('class') || ''} ${element.getAttribute('data-testid') || ''}`;
+      return pattern.test(marker) && normalizeText(element.textContent);
+    });
+  return marked.find(element => !marked.some(other => other !== element && element.contains(other))) || null;
+}
+
+function extractTitle(item: Element, anchor: Element): string {
+  const heading = item.querySelector('h1, h2, h3, h4, h5, h6');
+  if (heading && isPlausibleTitle(normalizeText(heading.textContent))) {
+    return normalizeText(heading.textContent);
+  }
+
+  const titled = findByClass(item, titleClassPattern);
+  if (titled && isPlausibleTitle(normalizeText(titled.textContent))) {
+    return normalizeText(titled.textContent);
+  }
+
+  return normalizeText(anchor.getAttribute('title') || anchor.textContent);
+}
+
+function extractLocation(item: Element): string {
+  const located = findByClass(item, locationClassPattern);
+  return located ? normalizeText(located.textContent) : '';
+}
+
+export function extractPostedDate(item: Element): string | undefined {
+  const time = item.querySelector('time[datetime]');
+  const candidates = [
+    time?.getAttribute('datetime'),
+    findByClass(item, dateClassPattern)?.textContent,
+  ];
+  for (const candidate of candidates) {
+    const text = normalizeText(candidate);
+    if (!text) continue;
+    const date = new Date(text.replace(/^posted\s*(on)?\s*/i, ''));
+    if (!isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return undefined;
+}
+
+function scoreListing(entries: ListingItem[], pageUrl: string): number {
+  const ratio = (predicate: (entry: ListingItem) => boolean) =>
+    entries.filter(predicate).length / entries.length;
+
+  const jobLinks = ratio(({ anchor }) => jobLinkPattern.test(anchor.getAttribute('href') || ''));
+  const jobTitles = ratio(({ item, anchor }) => jobTitlePattern.test(extractTitle(item, anchor)));
+  const locations = ratio(({ item }) => Boolean(extractLocation(item)));
+  const distinctLinks = new Set(entries.map(({ anchor }) => resolveHref(anchor.getAttribute('href'), pageUrl))).size / entries.length;
+
+  return jobLinks * 0.35 + jobTitles * 0.35 + locations * 0.15 + distinctLinks * 0.15;
+}
+
+// A listing that scores well can still hold a stray entry (a blog link in a
+// run of paragraphs), so each entry must look like a job by its link or title
+function looksLikeJob({ item, anchor }: ListingItem): boolean {
+  return jobLinkPattern.test(anchor.getAttribute('href') || '') || jobTitlePattern.test(extractTitle(item, anchor));
+}
+
+function toJob(item: Element, anchor: Element, pageUrl: string): Job | null {
+  const title = extractTitle(item, anchor);
+  const url = resolveHref(anchor.getAttribute('href'), pageUrl);
+  if (!url || !isPlausibleTitle(title)) {
+    return null;
+  }
+
+  return {
+    title,
+    url,
+    description: '',
+    location: extractLocation(item),
+    posted_date: extractPostedDate(item) || new Date().toISOString(),
+  };
+}
+
+// Pages without a repeated listing structure sometimes still link each role
+// directly; only keep links that look like both a job URL and a job title
+function extractLooseAnchors(anchors: Element[], pageUrl: string): Job[] {
+  return anchors
+    .filter(anchor => jobLinkPattern.test(anchor.getAttribute('href') || ''))
+    .filter(anchor => jobTitlePattern.test(normalizeText(anchor.textContent)))
+    .map(anchor => toJob(anchor, anchor, pageUrl))
+    .filter((job): job is Job => job !== null);
+}
+
+export function extractDomJobs(html: string, pageUrl: string): Job[] {
+  const document = parseHtml(html);
+  if (!document?.body) {
+    return [];
+  }
+
+  for (const noise of Array.from(document.querySelectorAll(noiseContainers))) {
+    (noise as Element).remove();
+  }
+
+  const anchors = Array.from(document.querySelectorAll('a[href]'))
+    .map(node => node as Element)
+    .filter(anchor => resolveHref(anchor.getAttribute('href'), pageUrl));
+
+  // Group each anchor under the repeated structure it belongs to; an item can
+  // hold several links (title, "Apply"), so keep the first one per item
+  const listings = new Map<string, ListingItem[]>();
+  for (const anchor of anchors) {
+    const found = findListingItem(anchor);
+    if (!found) continue;
+    const entries = listings.get(found.key) || [];
+    if (!entries.some(entry => entry.item === found.item)) {
+      entries.push({ item: found.item, anchor });
+      listings.set(found.key, entries);
+    }
+  }
+
+  const jobs: Job[] = [];
+  for (const entries of listings.values()) {
+    if (entries.length < MIN_LISTING_SIZE || scoreListing(entries, pageUrl) < MIN_LISTING_SCORE) {
+      continue;
+    }
+    for (const { item, anchor } of entries.filter(looksLikeJob)) {
+      const job = toJob(item, anchor, pageUrl);
+      if (job) jobs.push(job);
+    }
+  }
+
+  return jobs.length > 0 ? jobs : extractLooseAnchors(anchors, pageUrl);
+}
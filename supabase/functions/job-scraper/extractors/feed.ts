@@ -0,0 +1,173 @@
+import { fetchConditional } from '../cache.ts';
+import { HttpStatusError, ScrapeError } from '../errors.ts';
+import { decodeHtmlEntities, htmlToText } from '../text.ts';
+import { resolveHref } from './dom.ts';
+import type { HttpValidators, Job, ScrapedData } from '../types.ts';
+
+const FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/feed+json, application/json;q=0.9, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8';
+
+// An XML document whose root is <rss>, <feed> (Atom) or <rdf:RDF> (RSS 1.0),
+// after any declaration, processing instructions, comments or doctype
+const xmlFeedRoot = /^\s*(?:<\?[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<(?:rss|feed|rdf:RDF)\b/i;
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+}
+
+interface JsonFeed {
+  version?: string;
+  items?: JsonFeedItem[];
+}
+
+function parseJsonFeed(body: string): JsonFeed | null {
+  if (!body.trimStart().startsWith('{')) return null;
+  try {
+    const feed = JSON.parse(body) as JsonFeed;
+    return typeof feed.version === 'string' && feed.version.includes('jsonfeed.org') && Array.isArray(feed.items) ? feed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function looksLikeFeed(body: string): boolean {
+  return xmlFeedRoot.test(body) || parseJsonFeed(body) !== null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Text content of the first <name> element in `xml`, with CDATA unwrapped and
+// entities decoded. Names include their namespace prefix, e.g. "content:encoded".
+function elementText(xml: string, names: string[]): string {
+  for (const name of names) {
+    const tag = escapeRegExp(name);
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (!match) continue;
+
+    const raw = match[1].trim();
+    const cdata = raw.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+    const text = cdata ? cdata[1].trim() : decodeHtmlEntities(raw);
+    if (text) return text;
+  }
+  return '';
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeHtmlEntities(match[1] ?? match[2]) : null;
+}
+
+// Atom entries link to their page with <link rel="alternate" href="...">,
+// where rel defaults to alternate
+function atomLink(entry: string): string {
+  const links = entry.match(/<link\b[^>]*>/gi) || [];
+  const alternate = links.find(link => (attribute(link, 'rel') ?? 'alternate') === 'alternate');
+  return alternate ? attribute(alternate, 'href') ?? '' : '';
+}
+
+function toIsoDate(value: string | undefined): string {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : new Date().toISOString();
+}
+
+function toJob(fields: { title: string; url: string; guid: string; description: string; location?: string; date?: string }, feedUrl: string): Job | null {
+  const title = htmlToText(fields.title).replace(/\s+/g, ' ');
+  if (!title) return null;
+
+  return {
+    title,
+    url: resolveHref(fields.url, feedUrl) ?? undefined,
+    guid: fields.guid || undefined,
+    description: fields.description ? htmlToText(fields.description) : '',
+    location: fields.location || '',
+    posted_date: toIsoDate(fields.date),
+  };
+}
+
+function parseXmlFeed(xml: string, feedUrl: string): Job[] {
+  const jobs: (Job | null)[] = [];
+
+  // RSS 2.0 identifies items by <guid>, which doubles as the link unless
+  // isPermaLink="false"; RSS 1.0 by the item's rdf:about
+  for (const [, openingTag, item] of xml.matchAll(/(<item\b[^>]*>)([\s\S]*?)<\/item>/gi)) {
+    const guid = elementText(item, ['guid']) || attribute(openingTag, 'rdf:about') || '';
+    const guidTag = item.match(/<guid\b[^>]*>/i)?.[0];
+    const guidIsLink = /^https?:\/\//i.test(guid) && (!guidTag || attribute(guidTag, 'isPermaLink') !== 'false');
+    jobs.push(toJob({
+      title: elementText(item, ['title']),
+      url: elementText(item, ['link']) || (guidIsLink ? guid : ''),
+      guid,
+      description: elementText(item, ['content:encoded', 'description']),
+      location: elementText(item, ['job:location', 'location']),
+      date: elementText(item, ['pubDate', 'dc:date']),
+    }, feedUrl));
+  }
+
+  for (const [, entry] of xml.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/gi)) {
+    jobs.push(toJob({
+      title: elementText(entry, ['title']),
+      url: atomLink(entry),
+      guid: elementText(entry, ['id']),
+      description: elementText(entry, ['content', 'summary']),
+      location: elementText(entry, ['job:location', 'location']),
+      date: elementText(entry, ['published', 'updated']),
+    }, feedUrl));
+  }
+
+  return jobs.filter((job): job is Job => job !== null);
+}
+
+function parseJsonFeedItems(feed: JsonFeed, feedUrl: string): Job[] {
+  return (feed.items || [])
+    .map(item => toJob({
+      title: item.title || '',
+      url: item.url || item.external_url || '',
+      guid: item.id === undefined ? '' : String(item.id),
+      description: item.content_html || item.content_text || item.summary || '',
+      date: item.date_published || item.date_modified,
+    }, feedUrl))
+    .filter((job): job is Job => job !== null);
+}
+
+// Maps the items of an RSS, Atom or JSON Feed document to jobs. Each item's
+// GUID or id is kept so the job is fingerprinted by it rather than by its
+// title and URL.
+export function parseFeed(body: string, feedUrl: string): Job[] {
+  const jsonFeed = parseJsonFeed(body);
+  return jsonFeed ? parseJsonFeedItems(jsonFeed, feedUrl) : parseXmlFeed(body, feedUrl);
+}
+
+export async function scrapeFeed(feedUrl: string, cached?: HttpValidators | null): Promise<ScrapedData> {
+  console.log(`Fetching feed: ${feedUrl}`);
+
+  const { response, validators } = await fetchConditional(feedUrl, {
+    headers: { 'Accept': FEED_ACCEPT }
+  }, cached);
+
+  if (!response) {
+    console.log(`Feed ${feedUrl} is unchanged`);
+    return { jobs: [], success: true, extractor: 'feed', not_modified: true, validators };
+  }
+
+  if (!response.ok) {
+    throw new HttpStatusError(feedUrl, response.status);
+  }
+
+  const body = await response.text();
+  if (!looksLikeFeed(body)) {
+    throw new ScrapeError(`${feedUrl} is not an RSS, Atom or JSON feed`, 'parse');
+  }
+
+  const jobs = parseFeed(body, feedUrl);
+  console.log(`Found ${jobs.length} jobs in feed ${feedUrl}`);
+  return { jobs, success: true, extractor: 'feed', validators };
+}
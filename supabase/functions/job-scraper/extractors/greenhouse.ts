@@ -0,0 +1,94 @@
+import { fetchConditional } from '../cache.ts';
+import { HttpStatusError } from '../errors.ts';
+import { htmlToText, decodeHtmlEntities } from '../text.ts';
+import type { HttpValidators, Job, ScrapedData } from '../types.ts';
+
+const GREENHOUSE_API = 'https://boards-api.greenhouse.io/v1/boards';
+
+interface GreenhouseJob {
+  id: number;
+  title: string;
+  absolute_url: string;
+  updated_at?: string;
+  first_published?: string;
+  location?: { name?: string };
+  content?: string;
+}
+
+interface GreenhouseJobsResponse {
+  jobs?: GreenhouseJob[];
+}
+
+// Resolves the board token from hosted board URLs such as
+// boards.greenhouse.io/acme, job-boards.greenhouse.io/acme,
+// boards.greenhouse.io/embed/job_board?for=acme and the boards API itself
+export function getGreenhouseBoardToken(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (!/(^|\.)greenhouse\.io$/i.test(parsed.hostname)) {
+    return null;
+  }
+
+  const embedToken = parsed.searchParams.get('for');
+  if (embedToken) {
+    return embedToken;
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  if (parsed.hostname.startsWith('boards-api.')) {
+    const boardsIndex = segments.indexOf('boards');
+    return boardsIndex >= 0 ? segments[boardsIndex + 1] ?? null : null;
+  }
+
+  if (segments.length === 0 || segments[0] === 'embed') {
+    return null;
+  }
+  return segments[0];
+}
+
+// Career pages that embed a Greenhouse board load it through a script or iframe
+// pointing at boards.greenhouse.io/embed/job_board?for=<token>
+export function findEmbeddedGreenhouseBoard(html: string): string | null {
+  const match = html.match(/greenhouse\.io\/embed\/job_board(?:\/js)?\?(?:[^"'\s]*&(?:amp;)?)?for=([\w-]+)/i);
+  return match ? match[1] : null;
+}
+
+export function parseGreenhouseJobs(payload: GreenhouseJobsResponse): Job[] {
+  return (payload.jobs || [])
+    .filter(job => job.title)
+    .map(job => ({
+      title: job.title.trim().replace(/\s+/g, ' '),
+      url: job.absolute_url,
+      // The boards API returns the posting body as entity-escaped HTML
+      description: job.content ? htmlToText(decodeHtmlEntities(job.content)) : '',
+      location: job.location?.name?.trim() || '',
+      posted_date: new Date(job.first_published || job.updated_at || Date.now()).toISOString(),
+    }));
+}
+
+export async function scrapeGreenhouseBoard(boardToken: string, cached?: HttpValidators | null): Promise<ScrapedData> {
+  const apiUrl = `${GREENHOUSE_API}/${encodeURIComponent(boardToken)}/jobs?content=true`;
+  console.log(`Fetching Greenhouse board: ${apiUrl}`);
+
+  const { response, validators } = await fetchConditional(apiUrl, {
+    headers: { 'Accept': 'application/json' }
+  }, cached);
+
+  if (!response) {
+    console.log(`Greenhouse listings at ${apiUrl} are unchanged`);
+    return { jobs: [], success: true, extractor: 'greenhouse', not_modified: true, validators };
+  }
+
+  if (!response.ok) {
+    throw new HttpStatusError(apiUrl, response.status);
+  }
+
+  const jobs = parseGreenhouseJobs(await response.json());
+  console.log(`Found ${jobs.length} jobs on Greenhouse board ${boardToken}`);
+  return { jobs, success: true, extractor: 'greenhouse', validators };
+}
@@ -0,0 +1,172 @@
+import { htmlToText } from '../text.ts';
+import { resolveHref } from './dom.ts';
+import type { Job } from '../types.ts';
+
+export type JsonLdNode = Record<string, unknown>;
+
+const employmentTypeLabels: Record<string, string> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACTOR: 'Contract',
+  TEMPORARY: 'Temporary',
+  INTERN: 'Internship',
+  VOLUNTEER: 'Volunteer',
+  PER_DIEM: 'Per diem',
+  OTHER: 'Other',
+};
+
+export function extractJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const scriptPattern = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+  let match;
+  while ((match = scriptPattern.exec(html)) !== null) {
+    const raw = match[1]
+      .replace(/^\s*<!--/, '')
+      .replace(/-->\s*$/, '')
+      .replace(/^\s*\/\/<!\[CDATA\[/, '')
+      .replace(/\/\/\]\]>\s*$/, '')
+      .trim();
+
+    if (!raw) continue;
+
+    try {
+      blocks.push(JSON.parse(raw));
+    } catch (error) {
+      console.warn('Skipping malformed JSON-LD block:', error.message);
+    }
+  }
+
+  return blocks;
+}
+
+function isJobPosting(node: JsonLdNode): boolean {
+  const type = node['@type'];
+  return Array.isArray(type) ? type.includes('JobPosting') : type === 'JobPosting';
+}
+
+// Walks arrays, @graph wrappers and ItemList entries looking for JobPosting nodes
+export function collectJobPostings(value: unknown, found: JsonLdNode[] = []): JsonLdNode[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectJobPostings(item, found));
+  } else if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    if (isJobPosting(node)) {
+      found.push(node);
+    }
+    if (node['@graph']) {
+      collectJobPostings(node['@graph'], found);
+    }
+    if (node.itemListElement) {
+      collectJobPostings(node.itemListElement, found);
+    }
+    if (node.item) {
+      collectJobPostings(node.item, found);
+    }
+  }
+  return found;
+}
+
+function textValue(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    return textValue(node.name ?? node['@value'] ?? '');
+  }
+  return '';
+}
+
+function formatAddress(address: unknown): string {
+  if (typeof address === 'string') return address.trim();
+  if (!address || typeof address !== 'object') return '';
+
+  const node = address as JsonLdNode;
+  return [node.addressLocality, node.addressRegion, node.addressCountry]
+    .map(textValue)
+    .filter(Boolean)
+    .join(', ');
+}
+
+function formatLocation(posting: JsonLdNode): string {
+  const places = Array.isArray(posting.jobLocation) ? posting.jobLocation : [posting.jobLocation];
+  const locations = places
+    .filter(Boolean)
+    .map((place: unknown) => typeof place === 'string' ? place : formatAddress((place as JsonLdNode).address) || textValue(place))
+    .filter(Boolean);
+
+  const locationTypes = [posting.jobLocationType].flat().map(textValue);
+  if (locationTypes.some(type => type.toUpperCase() === 'TELECOMMUTE')) {
+    locations.push('Remote');
+  }
+
+  return [...new Set(locations)].join('; ');
+}
+
+function formatEmploymentType(value: unknown): string | undefined {
+  const types = [value].flat().map(textValue).filter(Boolean);
+  if (types.length === 0) return undefined;
+  return types.map(type => employmentTypeLabels[type.toUpperCase().replace(/[\s-]/g, '_')] || type).join(', ');
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  const text = textValue(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^\d.-]/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// baseSalary is either a bare number or a MonetaryAmount whose value is a
+// number or a QuantitativeValue with value/minValue/maxValue and unitText
+function parseSalary(baseSalary: unknown): Pick<Job, 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_unit'> {
+  if (baseSalary === undefined || baseSalary === null) return {};
+
+  if (typeof baseSalary !== 'object') {
+    const amount = toNumber(baseSalary);
+    return { salary_min: amount, salary_max: amount };
+  }
+
+  const salary = baseSalary as JsonLdNode;
+  const value = salary.value;
+  const quantity = (value && typeof value === 'object' ? value : { value }) as JsonLdNode;
+
+  return {
+    salary_min: toNumber(quantity.minValue ?? quantity.value),
+    salary_max: toNumber(quantity.maxValue ?? quantity.value),
+    salary_currency: textValue(salary.currency) || undefined,
+    salary_unit: textValue(quantity.unitText ?? salary.unitText) || undefined,
+  };
+}
+
+// Postings without a usable link of their own point at the page they were found on
+function resolveUrl(value: unknown, pageUrl: string): string {
+  return resolveHref(textValue(value), pageUrl) ?? pageUrl;
+}
+
+export function parseJsonLdJobPosting(posting: JsonLdNode, pageUrl: string): Job | null {
+  const title = textValue(posting.title || posting.name).replace(/\s+/g, ' ');
+  if (!title) return null;
+
+  return {
+    title,
+    url: resolveUrl(posting.url || posting.sameAs, pageUrl),
+    description: posting.description ? htmlToText(String(posting.description)) : '',
+    location: formatLocation(posting),
+    posted_date: toIsoDate(posting.datePosted) || new Date().toISOString(),
+    hiring_organization: textValue(posting.hiringOrganization) || undefined,
+    employment_type: formatEmploymentType(posting.employmentType),
+    valid_through: toIsoDate(posting.validThrough),
+    ...parseSalary(posting.baseSalary),
+  };
+}
+
+export function extractJsonLdJobs(html: string, pageUrl: string): Job[] {
+  return collectJobPostings(extractJsonLdBlocks(html))
+    .map(posting => parseJsonLdJobPosting(posting, pageUrl))
+    .filter((job): job is Job => job !== null);
+}
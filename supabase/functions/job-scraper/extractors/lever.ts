@@ -0,0 +1,89 @@
+import { fetchConditional } from '../cache.ts';
+import { HttpStatusError } from '../errors.ts';
+import type { HttpValidators, Job, ScrapedData } from '../types.ts';
+
+interface LeverPosting {
+  id: string;
+  text: string;
+  hostedUrl: string;
+  createdAt?: number;
+  descriptionPlain?: string;
+  additionalPlain?: string;
+  categories?: {
+    team?: string;
+    department?: string;
+    location?: string;
+    commitment?: string;
+  };
+}
+
+interface LeverSite {
+  site: string;
+  apiBase: string;
+}
+
+// Resolves the Lever site name from jobs.lever.co/<site> (or jobs.eu.lever.co/<site>)
+// and picks the matching regional postings API
+export function getLeverSite(url: string): LeverSite | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const hostMatch = parsed.hostname.match(/^jobs\.(eu\.)?lever\.co$/i);
+  if (!hostMatch) {
+    return null;
+  }
+
+  const site = parsed.pathname.split('/').filter(Boolean)[0];
+  if (!site) {
+    return null;
+  }
+
+  return {
+    site,
+    apiBase: hostMatch[1] ? 'https://api.eu.lever.co/v0/postings' : 'https://api.lever.co/v0/postings',
+  };
+}
+
+export function parseLeverPostings(postings: LeverPosting[]): Job[] {
+  return postings
+    .filter(posting => posting.text)
+    .map(posting => ({
+      title: posting.text.trim().replace(/\s+/g, ' '),
+      url: posting.hostedUrl,
+      description: [posting.descriptionPlain, posting.additionalPlain]
+        .map(part => part?.trim())
+        .filter(Boolean)
+        .join('\n\n'),
+      location: posting.categories?.location?.trim() || '',
+      posted_date: new Date(posting.createdAt || Date.now()).toISOString(),
+      team: posting.categories?.team?.trim() || undefined,
+      department: posting.categories?.department?.trim() || undefined,
+      commitment: posting.categories?.commitment?.trim() || undefined,
+    }));
+}
+
+export async function scrapeLeverSite({ site, apiBase }: LeverSite, cached?: HttpValidators | null): Promise<ScrapedData> {
+  const apiUrl = `${apiBase}/${encodeURIComponent(site)}?mode=json`;
+  console.log(`Fetching Lever postings: ${apiUrl}`);
+
+  const { response, validators } = await fetchConditional(apiUrl, {
+    headers: { 'Accept': 'application/json' }
+  }, cached);
+
+  if (!response) {
+    console.log(`Lever listings at ${apiUrl} are unchanged`);
+    return { jobs: [], success: true, extractor: 'lever', not_modified: true, validators };
+  }
+
+  if (!response.ok) {
+    throw new HttpStatusError(apiUrl, response.status);
+  }
+
+  const jobs = parseLeverPostings(await response.json());
+  console.log(`Found ${jobs.length} jobs on Lever site ${site}`);
+  return { jobs, success: true, extractor: 'lever', validators };
+}
@@ -0,0 +1,86 @@
+import type { Element, HTMLDocument } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { normalizeText, parseHtml, resolveHref } from './dom.ts';
+
+const pageParams = ['page', 'p', 'pg', 'pagenumber', 'page_number'];
+const offsetParams = ['offset', 'start', 'from', 'startrow', 'skip'];
+const loadMoreText = /^(load|show|see|view) more( jobs| results| positions| openings| roles)?$|^next( page)?$|^[›»>]$/i;
+const loadMoreAttributes = ['href', 'data-href', 'data-url', 'data-next-url', 'data-next-page-url'];
+
+function elements(document: HTMLDocument, selector: string): Element[] {
+  return Array.from(document.querySelectorAll(selector)).map(node => node as Element);
+}
+
+function readParam(url: URL, names: string[]): { name: string; value: number } | null {
+  for (const [name, value] of url.searchParams) {
+    if (names.includes(name.toLowerCase()) && /^\d+$/.test(value)) {
+      return { name, value: parseInt(value, 10) };
+    }
+  }
+  return null;
+}
+
+function samePath(a: URL, b: URL): boolean {
+  return a.origin === b.origin && a.pathname.replace(/\/$/, '') === b.pathname.replace(/\/$/, '');
+}
+
+// The page the listing says it is on: the pager's current marker, else the
+// page number in the URL, else the first page
+function currentPageNumber(document: HTMLDocument, pageUrl: URL): number {
+  const marker = document.querySelector('[aria-current="page"], .pagination .active, .pagination .current, [class*="pagination"] [class*="current"]');
+  const marked = normalizeText(marker?.textContent);
+  if (/^\d+$/.test(marked)) return parseInt(marked, 10);
+  return readParam(pageUrl, pageParams)?.value ?? 1;
+}
+
+function candidateLinks(document: HTMLDocument, pageUrl: string): { element: Element; url: URL }[] {
+  return elements(document, 'a[href]')
+    .map(element => ({ element, href: resolveHref(element.getAttribute('href'), pageUrl) }))
+    .filter((link): link is { element: Element; href: string } => link.href !== null)
+    .map(({ element, href }) => ({ element, url: new URL(href) }));
+}
+
+// Finds the URL of the listing page after `pageUrl`, trying in turn:
+// rel="next" links, "load more"/"next" controls, a link numbered one past the
+// current page, and links that advance a page or offset query parameter.
+// Returns null on the last page.
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  const document = parseHtml(html);
+  if (!document) return null;
+
+  const current = new URL(pageUrl);
+  const isNewPage = (url: string | null): url is string =>
+    url !== null && url.split('#')[0] !== pageUrl.split('#')[0];
+
+  for (const element of elements(document, 'link[rel~="next"][href], a[rel~="next"][href]')) {
+    const url = resolveHref(element.getAttribute('href'), pageUrl);
+    if (isNewPage(url)) return url;
+  }
+
+  const controls = elements(document, 'a, button, [data-next-url], [data-next-page-url]');
+  for (const element of controls) {
+    const labelled = loadMoreText.test(normalizeText(element.textContent || element.getAttribute('aria-label')));
+    if (!labelled && !element.hasAttribute('data-next-url') && !element.hasAttribute('data-next-page-url')) continue;
+    for (const attribute of loadMoreAttributes) {
+      const url = resolveHref(element.getAttribute(attribute), pageUrl);
+      if (isNewPage(url)) return url;
+    }
+  }
+
+  const links = candidateLinks(document, pageUrl);
+  const nextNumber = String(currentPageNumber(document, current) + 1);
+  const numbered = links.find(({ element, url }) => normalizeText(element.textContent) === nextNumber && isNewPage(url.href));
+  if (numbered) return numbered.url.href;
+
+  const currentPage = readParam(current, pageParams)?.value ?? 1;
+  const paged = links.find(({ url }) => samePath(url, current) && readParam(url, pageParams)?.value === currentPage + 1);
+  if (paged) return paged.url.href;
+
+  // Offsets step by the page size, which the page doesn't state, so take the
+  // nearest one ahead of this page
+  const currentOffset = readParam(current, offsetParams)?.value ?? 0;
+  const ahead = links
+    .map(({ url }) => ({ url, offset: samePath(url, current) ? readParam(url, offsetParams)?.value : undefined }))
+    .filter((link): link is { url: URL; offset: number } => link.offset !== undefined && link.offset > currentOffset)
+    .sort((a, b) => a.offset - b.offset);
+  return ahead.length > 0 ? ahead[0].url.href : null;
+}
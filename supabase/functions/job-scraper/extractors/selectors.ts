@@ -0,0 +1,68 @@
+import type { Element, HTMLDocument } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { ScrapeError } from '../errors.ts';
+import { extractPostedDate, normalizeText, parseHtml, resolveHref } from './dom.ts';
+import type { ExtractionRecipe, Job } from '../types.ts';
+
+function select(item: Element, selector: string | undefined): Element | null {
+  if (!selector?.trim()) return null;
+  return item.querySelector(selector);
+}
+
+function readUrl(item: Element, selector: string | undefined, pageUrl: string): string {
+  const target = select(item, selector) ||
+    (item.tagName === 'A' ? item : item.querySelector('a[href]'));
+  const href = target?.getAttribute('href') || target?.getAttribute('data-href') || target?.getAttribute('data-url');
+  return resolveHref(href ?? null, pageUrl) || pageUrl;
+}
+
+function readDate(item: Element, selector: string | undefined): string | undefined {
+  const target = select(item, selector);
+  if (!target) {
+    return extractPostedDate(item);
+  }
+  const text = normalizeText(target.getAttribute('datetime') || target.textContent);
+  const date = new Date(text.replace(/^posted\s*(on)?\s*/i, ''));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function checkSelector(document: HTMLDocument, field: string, selector: string) {
+  try {
+    document.querySelector(selector);
+  } catch (error) {
+    throw new ScrapeError(`Invalid ${field} selector "${selector}": ${error.message}`, 'parse');
+  }
+}
+
+// Applies a user-defined recipe: every element matching `item` is one job and
+// the remaining selectors are resolved relative to it
+export function extractWithRecipe(html: string, pageUrl: string, recipe: ExtractionRecipe): Job[] {
+  const document = parseHtml(html);
+  if (!document) {
+    return [];
+  }
+
+  // Check every selector up front: a bad field selector would otherwise only
+  // throw once an item matched, and then as a bare DOM error
+  checkSelector(document, 'list item', recipe.item);
+  const fields = { title: recipe.title, URL: recipe.url, location: recipe.location, date: recipe.date };
+  for (const [field, selector] of Object.entries(fields)) {
+    if (selector?.trim()) checkSelector(document, field, selector);
+  }
+
+  const items = Array.from(document.querySelectorAll(recipe.item)).map(node => node as Element);
+
+  return items
+    .map((item): Job | null => {
+      const title = normalizeText((select(item, recipe.title) || item).textContent);
+      if (!title) return null;
+
+      return {
+        title,
+        url: readUrl(item, recipe.url, pageUrl),
+        description: '',
+        location: normalizeText(select(item, recipe.location)?.textContent),
+        posted_date: readDate(item, recipe.date) || new Date().toISOString(),
+      };
+    })
+    .filter((job): job is Job => job !== null);
+}
@@ -0,0 +1,150 @@
+import { HttpStatusError } from '../errors.ts';
+import { politeFetch } from '../http.ts';
+import type { Job, ScrapedData } from '../types.ts';
+
+const PAGE_SIZE = 20;
+// Guards against endpoints that keep returning full pages forever
+const MAX_PAGES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WorkdayPosting {
+  title?: string;
+  externalPath?: string;
+  locationsText?: string;
+  postedOn?: string;
+}
+
+export interface WorkdaySearchResponse {
+  total?: number;
+  jobPostings?: WorkdayPosting[];
+}
+
+interface WorkdaySite {
+  // Public listing root that posting paths are appended to
+  siteUrl: string;
+  searchUrl: string;
+}
+
+// Supports tenant.wdN.myworkdayjobs.com/[locale/]<site> and
+// wdN.myworkdaysite.com/[locale/]recruiting/<tenant>/<site>
+export function getWorkdaySite(url: string): WorkdaySite | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  const localePrefix = segments[0] && /^[a-z]{2}-[A-Z]{2}$/.test(segments[0]) ? [segments.shift()] : [];
+
+  let tenant: string | undefined;
+  let siteSegments: string[];
+
+  if (/\.myworkdayjobs\.com$/i.test(parsed.hostname)) {
+    tenant = parsed.hostname.split('.')[0];
+    siteSegments = segments.slice(0, 1);
+  } else if (/\.myworkdaysite\.com$/i.test(parsed.hostname) && segments[0] === 'recruiting' && segments.length >= 3) {
+    tenant = segments[1];
+    siteSegments = segments.slice(0, 3);
+  } else {
+    return null;
+  }
+
+  const site = siteSegments[siteSegments.length - 1];
+  if (!tenant || !site) {
+    return null;
+  }
+
+  return {
+    siteUrl: `${parsed.origin}/${[...localePrefix, ...siteSegments].join('/')}`,
+    searchUrl: `${parsed.origin}/wday/cxs/${tenant}/${site}/jobs`,
+  };
+}
+
+// Workday only publishes relative ages such as "Posted Today", "Posted Yesterday",
+// "Posted 3 Days Ago" or "Posted 30+ Days Ago"
+export function parseWorkdayPostedOn(postedOn: string | undefined, now = new Date()): string {
+  const text = (postedOn || '').toLowerCase();
+  let daysAgo = 0;
+
+  if (text.includes('yesterday')) {
+    daysAgo = 1;
+  } else {
+    const match = text.match(/(\d+)\+?\s*days?\s+ago/);
+    if (match) {
+      daysAgo = parseInt(match[1], 10);
+    }
+  }
+
+  return new Date(now.getTime() - daysAgo * DAY_MS).toISOString();
+}
+
+export function parseWorkdayPostings(postings: WorkdayPosting[], siteUrl: string, now = new Date()): Job[] {
+  return postings
+    .filter(posting => posting.title)
+    .map(posting => ({
+      title: posting.title!.trim().replace(/\s+/g, ' '),
+      url: posting.externalPath ? `${siteUrl}${posting.externalPath}` : siteUrl,
+      description: '',
+      location: posting.locationsText?.trim() || '',
+      posted_date: parseWorkdayPostedOn(posting.postedOn, now),
+    }));
+}
+
+// Fetches one page of search results
+export type WorkdayPageFetcher = (offset: number, limit: number) => Promise<WorkdaySearchResponse>;
+
+// Pages through a search until a short page or the total the first page
+// reports. Only the first page reliably carries the total (later pages report
+// 0) and some tenants leave it out, so a missing or zero total means paging
+// until a page comes back short.
+export async function readWorkdayPostings(fetchPage: WorkdayPageFetcher): Promise<{ postings: WorkdayPosting[]; truncated: boolean }> {
+  const postings: WorkdayPosting[] = [];
+  let total = 0;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await fetchPage(page * PAGE_SIZE, PAGE_SIZE);
+    const pagePostings = data.jobPostings || [];
+    if (page === 0 && typeof data.total === 'number' && data.total > 0) {
+      total = data.total;
+    }
+
+    postings.push(...pagePostings);
+
+    if (pagePostings.length < PAGE_SIZE || (total > 0 && postings.length >= total)) {
+      return { postings, truncated: total > 0 && postings.length < total };
+    }
+  }
+
+  return { postings, truncated: true };
+}
+
+export async function scrapeWorkdaySite({ siteUrl, searchUrl }: WorkdaySite): Promise<ScrapedData> {
+  console.log(`Fetching Workday listings: ${searchUrl}`);
+
+  const { postings, truncated } = await readWorkdayPostings(async (offset, limit) => {
+    const response = await politeFetch(searchUrl, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        appliedFacets: {},
+        limit,
+        offset,
+        searchText: '',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(searchUrl, response.status);
+    }
+    return await response.json();
+  });
+
+  const jobs = parseWorkdayPostings(postings, siteUrl);
+  console.log(`Found ${jobs.length} jobs on Workday site ${siteUrl}`);
+  return { jobs, success: true, extractor: 'workday', truncated };
+}
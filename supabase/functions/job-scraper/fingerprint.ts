@@ -0,0 +1,120 @@
+import type { Job } from './types.ts';
+
+// A posting's fingerprint identifies it across runs: the company it belongs
+// to, the canonical form of its URL and its normalized title. Two roles with
+// the same title but their own links stay apart, and cosmetic changes to a
+// title (case, spacing, punctuation) or to tracking parameters on its link
+// don't turn it into a new posting.
+
+const encoder = new TextEncoder();
+
+// Query parameters that only record where a click came from. Parameters that
+// identify the posting itself, such as Greenhouse's gh_jid, are kept.
+const TRACKING_PARAMS = /^(utm_\w+|gh_src|lever-source(\[\])?|lever-origin|ref|referrer|fbclid|gclid|msclkid|mc_cid|mc_eid|_hsenc|_hsmi|trk)$/i;
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Drops the fragment and tracking parameters, sorts what is left of the query
+// and removes a trailing slash. Host case and default ports are normalized by
+// URL itself.
+export function canonicalizeUrl(url: string | undefined): string {
+  if (!url) return '';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.href;
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export async function fingerprintJob(companyId: string, job: Pick<Job, 'title' | 'url' | 'guid'>): Promise<string> {
+  // Feed items carry a stable id of their own, so their URL and title can change freely
+  if (job.guid) {
+    return await sha256Hex([companyId, `guid:${job.guid}`].join('\n'));
+  }
+  return await sha256Hex([companyId, canonicalizeUrl(job.url), normalizeTitle(job.title)].join('\n'));
+}
+
+// A row of `jobs` as insertNewJobs loads it. Rows stored before fingerprints
+// existed have none, and the oldest ones have no URL either.
+export interface StoredJob {
+  id: string;
+  position: string;
+  url: string | null;
+  fingerprint: string | null;
+}
+
+export interface JobMatches {
+  // The fingerprint of every listed job, in listing order
+  fingerprints: string[];
+  // Listed jobs that aren't stored yet, by fingerprint
+  unmatched: Map<string, Job>;
+  // Rows without a fingerprint that a listed job turned out to be, with the
+  // fingerprint to write back
+  backfills: { id: string; fingerprint: string; job: Job }[];
+}
+
+// Pairs the listed jobs with the company's stored rows. Rows without a
+// fingerprint are fingerprinted on the fly when they have a URL; rows without
+// a URL can't be, so each one is matched to a listed job with the same
+// normalized title instead. Either way the match is returned as a backfill,
+// so the row is known by its fingerprint from then on rather than being
+// inserted and alerted on again.
+export async function matchStoredJobs(companyId: string, stored: StoredJob[], jobs: Job[]): Promise<JobMatches> {
+  const known = new Set<string>();
+  const unfingerprinted = new Map<string, StoredJob>();
+  const withoutUrl = new Map<string, StoredJob[]>();
+  for (const row of stored) {
+    if (row.fingerprint) {
+      known.add(row.fingerprint);
+    } else if (row.url) {
+      unfingerprinted.set(await fingerprintJob(companyId, { title: row.position, url: row.url }), row);
+    } else {
+      const title = normalizeTitle(row.position);
+      withoutUrl.set(title, [...(withoutUrl.get(title) || []), row]);
+    }
+  }
+
+  const fingerprints = await Promise.all(jobs.map(job => fingerprintJob(companyId, job)));
+  const unmatched = new Map<string, Job>();
+  const backfills: JobMatches['backfills'] = [];
+  for (const [index, job] of jobs.entries()) {
+    const fingerprint = fingerprints[index];
+    if (known.has(fingerprint) || unmatched.has(fingerprint)) continue;
+
+    const row = unfingerprinted.get(fingerprint) ?? withoutUrl.get(normalizeTitle(job.title))?.shift();
+    if (row) {
+      backfills.push({ id: row.id, fingerprint, job });
+      known.add(fingerprint);
+    } else {
+      unmatched.set(fingerprint, job);
+    }
+  }
+
+  return { fingerprints, unmatched, backfills };
+}
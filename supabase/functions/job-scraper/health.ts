@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { sendCompanyPausedEmail } from './email.ts';
+import type { CompanyScrapeResult, TrackedCompany } from './types.ts';
+
+// A company whose career page fails this many runs in a row stops being scraped
+// until its owner resumes it
+const MAX_CONSECUTIVE_FAILURES = parseInt(Deno.env.get('SCRAPER_MAX_CONSECUTIVE_FAILURES') ?? '5', 10);
+
+async function notifyCompanyPaused(supabase: SupabaseClient, company: TrackedCompany, failures: number, lastError: string) {
+  const message = `${company.company_name} failed ${failures} times in a row and was paused. Last error: ${lastError}`;
+  console.log(`⏸️ ${message}`);
+
+  const userEmail = company.profiles?.email;
+  const emailSent = userEmail
+    ? await sendCompanyPausedEmail(userEmail, company.company_name, failures, lastError)
+    : false;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: company.user_id,
+      type: 'company_paused',
+      company_id: company.id,
+      message,
+      email_sent: emailSent
+    });
+
+  if (error) {
+    console.error('Error recording pause notification:', error);
+  }
+}
+
+// Keeps the health columns on the company row current: last scrape, last
+// success, last error and the consecutive failure streak
+export async function updateCompanyHealth(supabase: SupabaseClient, company: TrackedCompany, result: CompanyScrapeResult) {
+  // Skipped companies were never fetched, so there is nothing to report
+  if (result.status === 'skipped') return;
+
+  const now = new Date().toISOString();
+
+  if (result.status === 'succeeded') {
+    const { error } = await supabase
+      .from('tracked_companies')
+      .update({
+        last_scraped_at: now,
+        last_success_at: now,
+        last_error: null,
+        last_error_category: null,
+        consecutive_failures: 0,
+        paused_at: null,
+        paused_reason: null,
+      })
+      .eq('id', company.id);
+
+    if (error) {
+      console.error(`Error updating health for ${company.company_name}:`, error);
+    }
+    return;
+  }
+
+  const failures = (company.consecutive_failures || 0) + 1;
+  const lastError = result.error || 'Unknown error';
+  const shouldPause = !company.paused_at && failures >= MAX_CONSECUTIVE_FAILURES;
+
+  const { error } = await supabase
+    .from('tracked_companies')
+    .update({
+      last_scraped_at: now,
+      last_error: lastError,
+      last_error_category: result.error_category ?? null,
+      consecutive_failures: failures,
+      ...(shouldPause && {
+        paused_at: now,
+        paused_reason: `Paused after ${failures} consecutive failures`,
+      }),
+    })
+    .eq('id', company.id);
+
+  if (error) {
+    console.error(`Error updating health for ${company.company_name}:`, error);
+    return;
+  }
+
+  if (shouldPause) {
+    await notifyCompanyPaused(supabase, company, failures, lastError);
+  }
+}
@@ -0,0 +1,323 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { isTransientError } from '../_shared/errors.ts';
+import { RobotsDisallowedError, ScrapeError, categorizeError } from './errors.ts';
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobotsTxt, selectPolicy } from './robots.ts';
+import type { RobotsPolicy } from './robots.ts';
+
+// Every request the scraper makes goes through politeFetch: it identifies
+// itself honestly, honours robots.txt, spaces out requests to each host, and
+// retries transient failures. Host state lives in the scrape_hosts table so
+// concurrent workers share it.
+
+export const USER_AGENT = Deno.env.get('SCRAPER_USER_AGENT') ?? 'JobHunterAlertBot/1.0';
+
+// robots.txt groups are matched against the product token, e.g. "JobHunterAlertBot"
+const PRODUCT_TOKEN = USER_AGENT.split('/')[0].trim();
+
+// Minimum gap between requests to one host when robots.txt sets no crawl-delay
+const MIN_HOST_INTERVAL_MS = parseInt(Deno.env.get('SCRAPER_MIN_HOST_INTERVAL_MS') ?? '1000', 10);
+
+// Crawl-delays above this are clamped so one site can't stall a whole run
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+// Each attempt is abandoned after SCRAPER_FETCH_TIMEOUT_MS. Timeouts, dropped
+// connections, 429s and 5xx responses are retried up to SCRAPER_FETCH_RETRIES
+// times, waiting a random delay of up to 1s, 2s, 4s... or whatever Retry-After asks.
+const FETCH_TIMEOUT_MS = parseInt(Deno.env.get('SCRAPER_FETCH_TIMEOUT_MS') ?? '15000', 10);
+const FETCH_RETRIES = parseInt(Deno.env.get('SCRAPER_FETCH_RETRIES') ?? '2', 10);
+const RETRY_BASE_MS = 1000;
+
+// A Retry-After longer than this is left to the next run rather than waited out
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// An unreachable robots.txt is usually a passing outage, so try it again sooner
+const UNREACHABLE_ROBOTS_TTL_MS = 10 * 60 * 1000;
+
+let supabase: SupabaseClient | null = null;
+
+// Created on first use, so the extractors' parsers can be loaded (and tested)
+// without database credentials
+function hostStore(): SupabaseClient {
+  supabase ??= createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  return supabase;
+}
+
+type RobotsStatus = 'ok' | 'missing' | 'unreachable';
+
+interface HostRecord {
+  robots_txt: string | null;
+  robots_status: RobotsStatus | null;
+  robots_fetched_at: string | null;
+}
+
+// Parsed policies kept by this instance, so robots.txt is read once per host
+// until its copy goes stale (see robotsTtlMs)
+const policies = new Map<string, { expiresAt: number; policy: Promise<LoadedPolicy> }>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Waits for this host's next free request slot. Reserving the slot is atomic,
+// so requests from every worker to one host are spaced out.
+async function waitForHost(host: string, intervalMs: number) {
+  const { data: waitMs, error } = await hostStore().rpc('reserve_host_request', {
+    p_host: host,
+    p_interval_ms: Math.round(intervalMs),
+  });
+
+  if (error) {
+    console.error(`Error reserving a request slot for ${host}:`, error);
+    return;
+  }
+  if (waitMs > 0) {
+    await sleep(waitMs);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Full jitter, so workers that failed together don't retry together
+function backoffMs(attempt: number): number {
+  return Math.random() * RETRY_BASE_MS * 2 ** attempt;
+}
+
+function toScrapeError(error: unknown, url: URL): unknown {
+  const category = categorizeError(error);
+  if (!category || error instanceof ScrapeError) return error;
+
+  const reason = error instanceof Error ? error.message : String(error);
+  const messages: Record<string, string> = {
+    timeout: `${url.href} did not respond within ${FETCH_TIMEOUT_MS / 1000}s`,
+    dns: `Could not resolve ${url.hostname}: ${reason}`,
+    network: `Could not connect to ${url.host}: ${reason}`,
+  };
+  return new ScrapeError(messages[category] ?? reason, category);
+}
+
+// Sends the request once its host slot comes up, retrying transient failures.
+// A retryable status is returned as-is once the retries are used up.
+async function fetchWithRetry(url: URL, init: RequestInit, intervalMs: number): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await waitForHost(url.host, intervalMs);
+
+    let delayMs: number;
+    try {
+      const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= FETCH_RETRIES) {
+        return response;
+      }
+
+      const retryAfter = retryAfterMs(response);
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      delayMs = retryAfter ?? backoffMs(attempt);
+      console.warn(`${url.href} responded with HTTP ${response.status}, retrying in ${Math.round(delayMs)}ms`);
+    } catch (error) {
+      const scrapeError = toScrapeError(error, url);
+      if (attempt >= FETCH_RETRIES || !isTransientError(categorizeError(scrapeError))) {
+        throw scrapeError;
+      }
+
+      delayMs = backoffMs(attempt);
+      console.warn(`${url.href} failed (${scrapeError instanceof Error ? scrapeError.message : scrapeError}), retrying in ${Math.round(delayMs)}ms`);
+    }
+
+    await sleep(delayMs);
+  }
+}
+
+interface LoadedPolicy {
+  policy: RobotsPolicy;
+  status: RobotsStatus;
+  // When the robots.txt the policy came from was fetched
+  fetchedAt: number;
+}
+
+function robotsTtlMs(status: RobotsStatus): number {
+  return status === 'unreachable' ? UNREACHABLE_ROBOTS_TTL_MS : ROBOTS_TTL_MS;
+}
+
+function toPolicy(text: string | null, status: RobotsStatus): RobotsPolicy {
+  if (status === 'missing') return ALLOW_ALL;
+  // RFC 9309: a robots.txt that can't be fetched means nothing may be crawled
+  if (status === 'unreachable') return DISALLOW_ALL;
+  return selectPolicy(parseRobotsTxt(text || ''), PRODUCT_TOKEN);
+}
+
+// A host that can't be reached at all fails with that error (DNS, timeout...)
+// rather than being recorded as disallowing everything
+async function fetchRobots(origin: string): Promise<{ text: string | null; status: RobotsStatus }> {
+  const response = await fetchWithRetry(new URL('/robots.txt', origin), {
+    headers: { 'User-Agent': USER_AGENT },
+  }, MIN_HOST_INTERVAL_MS);
+
+  if (response.ok) {
+    return { text: await response.text(), status: 'ok' };
+  }
+  await response.body?.cancel();
+  // Any other 4xx means there are no rules for us, but RFC 9309 treats a 429
+  // like a server error
+  if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+    return { text: null, status: 'missing' };
+  }
+  return { text: null, status: 'unreachable' };
+}
+
+async function loadPolicy(origin: string, host: string): Promise<LoadedPolicy> {
+  const { data: cached } = await hostStore()
+    .from('scrape_hosts')
+    .select('robots_txt, robots_status, robots_fetched_at')
+    .eq('host', host)
+    .maybeSingle<HostRecord>();
+
+  if (cached?.robots_status && cached.robots_fetched_at) {
+    const fetchedAt = new Date(cached.robots_fetched_at).getTime();
+    if (Date.now() - fetchedAt < robotsTtlMs(cached.robots_status)) {
+      return { policy: toPolicy(cached.robots_txt, cached.robots_status), status: cached.robots_status, fetchedAt };
+    }
+  }
+
+  const { text, status } = await fetchRobots(origin);
+  const fetchedAt = Date.now();
+
+  const { error } = await hostStore()
+    .from('scrape_hosts')
+    .upsert({
+      host,
+      robots_txt: text,
+      robots_status: status,
+      robots_fetched_at: new Date(fetchedAt).toISOString(),
+    }, { onConflict: 'host' });
+
+  if (error) {
+    console.error(`Error caching robots.txt for ${host}:`, error);
+  }
+
+  return { policy: toPolicy(text, status), status, fetchedAt };
+}
+
+function getPolicy(url: URL) {
+  const entry = policies.get(url.host);
+  if (entry && Date.now() < entry.expiresAt) {
+    return entry.policy;
+  }
+
+  // Requests made while the policy loads share it; once loaded, it expires
+  // with the robots.txt it came from, sooner if that was unreachable
+  const loading = { expiresAt: Infinity, policy: loadPolicy(url.origin, url.host) };
+  policies.set(url.host, loading);
+  loading.policy.then(
+    ({ status, fetchedAt }) => { loading.expiresAt = fetchedAt + robotsTtlMs(status); },
+    // Don't keep a failed lookup around; the next request tries again
+    () => policies.delete(url.host)
+  );
+  return loading.policy;
+}
+
+export async function politeFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const target = new URL(url);
+  const { policy, status } = await getPolicy(target);
+
+  if (!isPathAllowed(policy, target.pathname + target.search)) {
+    throw new RobotsDisallowedError(
+      status === 'unreachable'
+        ? `${target.origin}/robots.txt could not be fetched, so ${target.host} is treated as off limits`
+        : `${target.origin}/robots.txt does not allow ${PRODUCT_TOKEN} to fetch ${target.pathname}`
+    );
+  }
+
+  const crawlDelayMs = Math.min(policy.crawlDelay ?? 0, MAX_CRAWL_DELAY_SECONDS) * 1000;
+
+  const headers = new Headers(init.headers);
+  headers.set('User-Agent', USER_AGENT);
+  return await fetchWithRetry(target, { ...init, headers }, Math.max(crawlDelayMs, MIN_HOST_INTERVAL_MS));
+}
+
+// Loopback, private, link-local, shared, benchmarking, multicast and reserved
+// IPv4 ranges, as [first address, prefix length]
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+export function isPublicAddress(address: string): boolean {
+  if (IPV4_PATTERN.test(address)) {
+    const value = ipv4ToNumber(address);
+    return !NON_PUBLIC_IPV4_RANGES.some(([first, prefix]) => {
+      const size = 2 ** (32 - prefix);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(first) / size);
+    });
+  }
+
+  // Addresses starting with :: are the unspecified and loopback addresses or
+  // embed an IPv4 one (::ffff:7f00:1 is 127.0.0.1), as do NAT64's 64:ff9b::.
+  // Then unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8.
+  const normalized = address.toLowerCase();
+  return !(
+    normalized.startsWith('::') ||
+    normalized.startsWith('64:ff9b:') ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    normalized.startsWith('ff')
+  );
+}
+
+// Why a URL from a caller can't be scraped on their behalf, or null if it
+// can: it has to be http(s) and its host has to resolve to public addresses
+// only, so nobody can point the scraper at the network it runs in
+export async function checkPublicUrl(url: string): Promise<string | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return `${url} is not a valid URL`;
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return 'Only http and https URLs can be scraped';
+  }
+
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses = [host];
+  if (!IPV4_PATTERN.test(host) && !host.includes(':')) {
+    const lookups = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')]);
+    addresses = lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+    if (addresses.length === 0) {
+      return `${host} could not be resolved`;
+    }
+  }
+
+  return addresses.every(isPublicAddress) ? null : `${host} is not a public address`;
+}
@@ -1,5 +1,32 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { hasServiceCredentials, verifyServiceRequest } from '../_shared/auth.ts';
+import { isPermanentError } from '../_shared/errors.ts';
+import { SOURCE_TYPES, isAtsSource, type SourceType } from '../_shared/sources.ts';
+import { acquireRunLock, getRunProgress, releaseRunLock } from '../_shared/lock.ts';
+import { invokeScraperWorker } from '../_shared/worker.ts';
+import { findEmbeddedGreenhouseBoard, getGreenhouseBoardToken, scrapeGreenhouseBoard } from './extractors/greenhouse.ts';
+import { extractDomJobs } from './extractors/dom.ts';
+import { looksLikeFeed, parseFeed, scrapeFeed } from './extractors/feed.ts';
+import { extractJsonLdJobs } from './extractors/jsonld.ts';
+import { findNextPageUrl } from './extractors/pagination.ts';
+import { getLeverSite, scrapeLeverSite } from './extractors/lever.ts';
+import { extractWithRecipe } from './extractors/selectors.ts';
+import { getWorkdaySite, scrapeWorkdaySite } from './extractors/workday.ts';
+import { fetchConditional, hashJobListing } from './cache.ts';
+import { sendNotificationEmail } from './email.ts';
+import { createDetailFetcher } from './details.ts';
+import type { DetailFetcher } from './details.ts';
+import { HttpStatusError, ScrapeError, categorizeError } from './errors.ts';
+import { canonicalizeUrl, matchStoredJobs, type JobMatches } from './fingerprint.ts';
+import { checkPublicUrl } from './http.ts';
+import { updateCompanyHealth } from './health.ts';
+import { notifyPostingsClosed, recordSightings } from './lifecycle.ts';
+import { runPool } from './pool.ts';
+import { claimTasks, completeTask, failTask, finalizeRuns, renewLeases, returnTask } from './queue.ts';
+import type { ScrapeTask } from './queue.ts';
+import { claimResumeCursor, finishRun, recordRunCompany, startRun } from './runs.ts';
+import type { CompanyScrapeResult, ExtractionRecipe, HttpValidators, Job, ListingSettings, ScrapedData, TrackedCompany } from './types.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,311 +38,1023 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
-interface Job {
-  title: string;
-  url?: string;
-  description?: string;
-  location?: string;
-  posted_date?: string;
+// How many companies are scraped at once, and how long a run keeps starting
+// new companies before it stops and leaves a cursor for the next run. The
+// budget sits well under the edge function wall-clock limit so companies that
+// are already in flight have time to finish.
+const SCRAPER_CONCURRENCY = parseInt(Deno.env.get('SCRAPER_CONCURRENCY') ?? '4', 10);
+const SCRAPER_TIME_BUDGET_MS = parseInt(Deno.env.get('SCRAPER_TIME_BUDGET_MS') ?? '100000', 10);
+
+// Queue workers hold a lease on each task while scraping it and renew it every
+// third of SCRAPER_LEASE_SECONDS; a task whose lease runs out (the worker
+// died) is handed to another worker. Failed tasks
+// are retried after SCRAPER_RETRY_BASE_SECONDS, doubling with each attempt,
+// unless the failure is permanent (a 404, a robots.txt block...), which no
+// amount of retrying will fix.
+const SCRAPER_LEASE_SECONDS = parseInt(Deno.env.get('SCRAPER_LEASE_SECONDS') ?? '120', 10);
+const SCRAPER_RETRY_BASE_SECONDS = parseInt(Deno.env.get('SCRAPER_RETRY_BASE_SECONDS') ?? '60', 10);
+
+const COMPANY_COLUMNS = `
+  id,
+  company_name,
+  career_page_url,
+  source_type,
+  extraction_recipe,
+  max_pages,
+  max_jobs,
+  user_id,
+  consecutive_failures,
+  paused_at,
+  listing_url,
+  etag,
+  last_modified,
+  content_hash,
+  listing_key,
+  profiles!tracked_companies_user_id_fkey(email, notify_on_posting_closed)
+`;
+
+interface FetchedPage {
+  // Null when the page is unchanged since `validators` were stored
+  html: string | null;
+  validators: HttpValidators;
 }
 
-interface ScrapedData {
+async function fetchHtml(url: string, cached?: HttpValidators | null): Promise<FetchedPage> {
+  console.log(`Scraping URL: ${url}`);
+  const { response, validators } = await fetchConditional(url, {
+    headers: { 'Accept': 'text/html,application/xhtml+xml' }
+  }, cached);
+
+  if (!response) {
+    console.log(`${url} is unchanged`);
+    return { html: null, validators };
+  }
+
+  if (!response.ok) {
+    throw new HttpStatusError(url, response.status);
+  }
+
+  return { html: await response.text(), validators };
+}
+
+// Listing pages read per company unless it sets max_pages
+const SCRAPER_MAX_PAGES = parseInt(Deno.env.get('SCRAPER_MAX_PAGES') ?? '5', 10);
+
+// Heuristic results past this are more likely noise than jobs, so they are cut
+// off unless the company sets max_jobs
+const MAX_HEURISTIC_JOBS = 50;
+
+type PageExtractor = (html: string, pageUrl: string) => Job[];
+
+interface ListingPages {
   jobs: Job[];
-  success: boolean;
-  error?: string;
+  pages: number;
+  truncated: boolean;
+  warnings: string[];
+}
+
+// Reads `html`, the listing's first page, and follows its next-page links
+// until there are none, a page adds no new jobs, or a limit is reached. A
+// later page that can't be fetched ends the listing early instead of failing it.
+async function readListingPages(url: string, html: string, extract: PageExtractor, maxPages: number, maxJobs: number): Promise<ListingPages> {
+  const jobs: Job[] = [];
+  const seen = new Set<string>();
+  const visited = new Set([canonicalizeUrl(url)]);
+  const warnings: string[] = [];
+  let pageUrl = url;
+  let pageHtml = html;
+  let pages = 1;
+  let truncated = false;
+
+  while (true) {
+    let added = 0;
+    for (const job of extract(pageHtml, pageUrl)) {
+      const key = `${job.title.toLowerCase()}\n${job.url}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      jobs.push(job);
+      added++;
+    }
+
+    if (jobs.length > maxJobs) {
+      truncated = true;
+      warnings.push(`Only the first ${maxJobs} jobs are kept`);
+      break;
+    }
+    // A page with nothing new means the pager is going round in circles
+    if (added === 0) break;
+
+    const nextUrl = findNextPageUrl(pageHtml, pageUrl);
+    if (!nextUrl || visited.has(canonicalizeUrl(nextUrl))) break;
+    if (pages >= maxPages) {
+      truncated = true;
+      warnings.push(`Only the first ${maxPages} pages were read`);
+      break;
+    }
+
+    visited.add(canonicalizeUrl(nextUrl));
+    try {
+      pageHtml = (await fetchHtml(nextUrl)).html ?? '';
+    } catch (error) {
+      truncated = true;
+      warnings.push(`Page ${pages + 1} could not be read (${error.message}), so the rest of the listing was skipped`);
+      break;
+    }
+    pageUrl = nextUrl;
+    pages++;
+  }
+
+  return { jobs: jobs.slice(0, maxJobs), pages, truncated, warnings };
+}
+
+// Matches empty SPA mount points such as <div id="root"></div>
+const clientRenderedShell = /<div[^>]+id=["'](?:root|app|__next|__nuxt)["'][^>]*>\s*<\/div>/i;
+
+// Keeps the first `maxJobs` jobs of a feed or job board response, which
+// arrives whole, and marks it truncated if any were dropped
+function limitJobs(data: ScrapedData, maxJobs: number | null | undefined): ScrapedData {
+  if (!maxJobs || data.jobs.length <= maxJobs) return data;
+  return {
+    ...data,
+    jobs: data.jobs.slice(0, maxJobs),
+    truncated: true,
+    warnings: [...(data.warnings || []), `Only the first ${maxJobs} jobs are kept`],
+  };
+}
+
+// `cached` holds the validators from the last time this company's listing was
+// read; whichever source the listing comes from revalidates against them.
+// Validators are only kept for single-page HTML listings: an unchanged first
+// page says nothing about the pages after it.
+async function extractJobs(url: string, settings: Partial<ListingSettings>, cached?: HttpValidators | null): Promise<ScrapedData> {
+  const sourceType = settings.source_type ?? 'auto';
+  const recipe = settings.extraction_recipe;
+  const maxPages = settings.max_pages ?? SCRAPER_MAX_PAGES;
+
+  if (sourceType === 'feed') {
+    return limitJobs(await scrapeFeed(url, cached), settings.max_jobs);
+  }
+
+  // A company-specific recipe replaces all of the built-in heuristics
+  if (recipe?.item) {
+    const { html, validators } = await fetchHtml(url, cached);
+    if (html === null) {
+      return { jobs: [], success: true, extractor: 'recipe', not_modified: true, validators };
+    }
+    const { jobs, pages, truncated, warnings } = await readListingPages(
+      url, html, (pageHtml, pageUrl) => extractWithRecipe(pageHtml, pageUrl, recipe), maxPages, settings.max_jobs ?? Infinity
+    );
+    console.log(`Found ${jobs.length} jobs on ${pages} page(s) of ${url} using the company's extraction recipe`);
+    return { jobs, success: true, extractor: 'recipe', warnings, validators: pages > 1 ? undefined : validators, truncated };
+  }
+
+  // Hosted ATS boards expose structured listings, so skip the HTML heuristics
+  const greenhouseToken = sourceType === 'auto' || sourceType === 'greenhouse' ? getGreenhouseBoardToken(url) : null;
+  if (greenhouseToken) {
+    return limitJobs(await scrapeGreenhouseBoard(greenhouseToken, cached), settings.max_jobs);
+  }
+
+  const leverSite = sourceType === 'auto' || sourceType === 'lever' ? getLeverSite(url) : null;
+  if (leverSite) {
+    return limitJobs(await scrapeLeverSite(leverSite, cached), settings.max_jobs);
+  }
+
+  const workdaySite = sourceType === 'auto' || sourceType === 'workday' ? getWorkdaySite(url) : null;
+  if (workdaySite) {
+    return limitJobs(await scrapeWorkdaySite(workdaySite), settings.max_jobs);
+  }
+
+  if (isAtsSource(sourceType)) {
+    throw new ScrapeError(`${url} is not a ${sourceType} job board URL`, 'unsupported');
+  }
+
+  const { html, validators } = await fetchHtml(url, cached);
+  if (html === null) {
+    return { jobs: [], success: true, not_modified: true, validators };
+  }
+
+  // Sources set to read the page itself skip feed and embedded board detection
+  if (sourceType === 'auto') {
+    if (looksLikeFeed(html)) {
+      const jobs = parseFeed(html, url);
+      console.log(`Found ${jobs.length} jobs in feed ${url}`);
+      return limitJobs({ jobs, success: true, extractor: 'feed', validators }, settings.max_jobs);
+    }
+
+    const embeddedGreenhouseToken = findEmbeddedGreenhouseBoard(html);
+    if (embeddedGreenhouseToken) {
+      return limitJobs(await scrapeGreenhouseBoard(embeddedGreenhouseToken, cached), settings.max_jobs);
+    }
+  }
+
+  // schema.org JobPosting data is authoritative when a page provides it
+  if (extractJsonLdJobs(html, url).length > 0) {
+    const { jobs, pages, truncated, warnings } = await readListingPages(url, html, extractJsonLdJobs, maxPages, settings.max_jobs ?? Infinity);
+    console.log(`Found ${jobs.length} JSON-LD job postings on ${pages} page(s) of ${url}`);
+    return { jobs, success: true, extractor: 'json-ld', warnings, validators: pages > 1 ? undefined : validators, truncated };
+  }
+
+  // Each job is tied to the link inside its own listing entry
+  const { jobs, pages, truncated, warnings } = await readListingPages(url, html, extractDomJobs, maxPages, settings.max_jobs ?? MAX_HEURISTIC_JOBS);
+
+  if (jobs.length === 0 && clientRenderedShell.test(html)) {
+    warnings.push('The page appears to load its listings with JavaScript, which the scraper cannot run. Try the underlying job board URL or a custom extraction recipe.');
+  }
+
+  console.log(`Found ${jobs.length} unique jobs on ${pages} page(s) of ${url}`);
+  return { jobs, success: true, extractor: 'dom', warnings, validators: pages > 1 ? undefined : validators, truncated };
 }
 
-async function scrapeJobPage(url: string): Promise<ScrapedData> {
+function collectWarnings(url: string, { jobs, extractor }: ScrapedData): string[] {
+  if (jobs.length === 0) {
+    return ['No jobs were found on this page'];
+  }
+
+  const warnings: string[] = [];
+  if (extractor === 'dom') {
+    warnings.push('No structured job data was found, so results come from page layout heuristics and may be incomplete');
+  }
+
+  const unlinked = jobs.filter(job => !job.url || job.url === url).length;
+  if (unlinked > 0) {
+    warnings.push(`${unlinked} of ${jobs.length} jobs have no link of their own`);
+  }
+
+  if ((extractor === 'dom' || extractor === 'recipe') && jobs.every(job => !job.location)) {
+    warnings.push('No job locations were detected');
+  }
+
+  return warnings;
+}
+
+async function scrapeJobPage(url: string, settings: Partial<ListingSettings>, cached?: HttpValidators | null): Promise<ScrapedData> {
   try {
-    console.log(`Scraping URL: ${url}`);
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
+    const scrapedData = await extractJobs(url, settings, cached);
+    if (scrapedData.not_modified) {
+      return scrapedData;
+    }
+    return {
+      ...scrapedData,
+      warnings: [...(scrapedData.warnings || []), ...collectWarnings(url, scrapedData)],
+    };
+  } catch (error) {
+    console.error('Scraping error:', error);
+    return {
+      jobs: [],
+      success: false,
+      error: error.message,
+      error_category: categorizeError(error),
+    };
+  }
+}
+
+// A keyword matches a job whose title or description mentions it
+async function checkKeywordMatch(job: Job, keywords: string[]): Promise<string | null> {
+  const titleLower = job.title.toLowerCase();
+  const descriptionLower = (job.description || '').toLowerCase();
+  for (const keyword of keywords) {
+    const keywordLower = keyword.toLowerCase();
+    if (titleLower.includes(keywordLower) || descriptionLower.includes(keywordLower)) {
+      return keyword;
+    }
+  }
+  return null;
+}
+
+function toJobRow(company: TrackedCompany, job: Job, fingerprint: string) {
+  return {
+    user_id: company.user_id,
+    company_id: company.id,
+    company: company.company_name,
+    position: job.title,
+    url: job.url,
+    canonical_url: canonicalizeUrl(job.url) || null,
+    fingerprint,
+    last_seen_at: new Date().toISOString(),
+    description: job.description,
+    location: job.location,
+    posted_date: job.posted_date,
+    team: job.team,
+    department: job.department,
+    commitment: job.commitment,
+    hiring_organization: job.hiring_organization,
+    employment_type: job.employment_type,
+    valid_through: job.valid_through,
+    salary_min: job.salary_min,
+    salary_max: job.salary_max,
+    salary_currency: job.salary_currency,
+    salary_unit: job.salary_unit,
+    status: 'applied' // Default status for scraped jobs
+  };
+}
+
+// Writes fingerprints back to the rows stored before fingerprints existed
+// that this listing matched, linking them to the company so later runs and
+// the posting lifecycle know them. A row that fails to update is only
+// matched again on the next run.
+async function backfillFingerprints(company: TrackedCompany, backfills: JobMatches['backfills']) {
+  for (const { id, fingerprint, job } of backfills) {
+    const { error } = await supabase
+      .from('jobs')
+      .update({
+        company_id: company.id,
+        fingerprint,
+        canonical_url: canonicalizeUrl(job.url) || null,
+        last_seen_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('fingerprint', null);
+
+    if (error) {
+      console.error(`Error backfilling the fingerprint of job ${id}:`, error);
+    }
+  }
+}
+
+interface InsertedJobs {
+  // The jobs that were actually inserted, paired with their new row ids
+  jobs: { id: string; job: Job }[];
+  // Fingerprints of every job on the listing, new or not
+  fingerprints: string[];
+  failed: boolean;
+}
+
+// Inserts the jobs this company doesn't have yet in one statement. Known
+// fingerprints are loaded up front, and the unique fingerprint index turns
+// anything a concurrent run inserted in the meantime into a no-op, so only
+// rows that really were inserted come back.
+async function insertNewJobs(company: TrackedCompany, jobs: Job[], fetchDetails: DetailFetcher): Promise<InsertedJobs> {
+  // Jobs belong to their company by id; only rows stored before jobs were
+  // linked to companies fall back to the name, which another tracked company
+  // of this user may share
+  const [linked, legacy] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('id, position, url, fingerprint')
+      .eq('company_id', company.id),
+    supabase
+      .from('jobs')
+      .select('id, position, url, fingerprint')
+      .eq('user_id', company.user_id)
+      .is('company_id', null)
+      .eq('company', company.company_name),
+  ]);
+
+  const existingError = linked.error || legacy.error;
+  if (existingError) {
+    throw new Error(`Error loading existing jobs: ${existingError.message}`);
+  }
+  const existingJobs = [...(linked.data || []), ...(legacy.data || [])];
+  const { fingerprints, unmatched: candidates, backfills } = await matchStoredJobs(company.id, existingJobs, jobs);
+  await backfillFingerprints(company, backfills);
+
+  if (candidates.size === 0) {
+    return { jobs: [], fingerprints, failed: false };
+  }
+
+  // Only postings new to this company are worth a request for their own page
+  for (const [fingerprint, job] of candidates) {
+    candidates.set(fingerprint, await fetchDetails(job));
+  }
+
+  const { data: inserted, error } = await supabase
+    .from('jobs')
+    .upsert([...candidates].map(([fingerprint, job]) => toJobRow(company, job, fingerprint)), {
+      onConflict: 'fingerprint',
+      ignoreDuplicates: true,
+    })
+    .select('id, fingerprint');
+
+  if (error) {
+    console.error('Error inserting jobs:', error);
+    return { jobs: [], fingerprints, failed: true };
+  }
+
+  const insertedJobs = (inserted || []).map(row => ({ id: row.id, job: candidates.get(row.fingerprint) as Job }));
+  for (const { job } of insertedJobs) {
+    console.log(`✅ Added new job: ${job.title}`);
+  }
+  return { jobs: insertedJobs, fingerprints, failed: false };
+}
+
+// Emails the owner about each new job matching one of their keywords and
+// records the notifications in one insert. Resolves to how many were recorded.
+async function notifyMatches(company: TrackedCompany, keywordList: string[], newJobs: InsertedJobs['jobs']): Promise<number> {
+  const userEmail = company.profiles?.email;
+  if (!userEmail) return 0;
+
+  const notifications: { user_id: string; job_id: string; keyword_matched: string; email_sent: boolean }[] = [];
+  for (const { id, job } of newJobs) {
+    const matchedKeyword = await checkKeywordMatch(job, keywordList);
+    if (!matchedKeyword) continue;
+
+    console.log(`🎯 Keyword match found: "${matchedKeyword}" in "${job.title}"`);
+    const emailSent = await sendNotificationEmail(userEmail, job, matchedKeyword, company.company_name);
+    notifications.push({
+      user_id: company.user_id,
+      job_id: id,
+      keyword_matched: matchedKeyword,
+      email_sent: emailSent
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  if (notifications.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(notifications);
+
+  if (error) {
+    console.error('Error recording notifications:', error);
+    return 0;
+  }
+  return notifications.length;
+}
+
+// Closes postings that have left the listing and reopens ones that came back,
+// adding the counts and any closure alerts to `result`
+async function applyLifecycle(company: TrackedCompany, result: CompanyScrapeResult, fingerprints: string[] | null): Promise<CompanyScrapeResult> {
+  const { closed, reopened } = await recordSightings(supabase, company, fingerprints);
+  if (closed.length > 0 || reopened.length > 0) {
+    console.log(`📪 ${company.company_name}: ${closed.length} postings closed, ${reopened.length} reopened`);
+  }
+
+  result.postings_closed = closed.length;
+  result.postings_reopened = reopened.length;
+  result.notifications_sent += await notifyPostingsClosed(supabase, company, closed);
+  return result;
+}
+
+async function saveListingCache(company: TrackedCompany, validators: HttpValidators | undefined, contentHash: string) {
+  const { error } = await supabase
+    .from('tracked_companies')
+    .update({
+      listing_url: validators?.url ?? null,
+      etag: validators?.etag ?? null,
+      last_modified: validators?.last_modified ?? null,
+      content_hash: contentHash,
+    })
+    .eq('id', company.id);
+
+  if (error) {
+    console.error(`Error saving listing cache for ${company.company_name}:`, error);
+  }
+}
+
+function emptyResult(company: TrackedCompany): CompanyScrapeResult {
+  return {
+    company_id: company.id,
+    company: company.company_name,
+    user_id: company.user_id,
+    status: 'succeeded',
+    jobs_found: 0,
+    new_jobs: 0,
+    notifications_sent: 0,
+  };
+}
+
+// Companies that read the same listing: the same career page URL once
+// normalized, and the same extraction recipe and limits (see the listing_key
+// column).
+// Groups keep the order in which their first company appears.
+function groupByListing(companies: TrackedCompany[]): TrackedCompany[][] {
+  const groups = new Map<string, TrackedCompany[]>();
+  for (const company of companies) {
+    const key = company.listing_key ?? company.id;
+    groups.set(key, [...(groups.get(key) || []), company]);
+  }
+  return [...groups.values()];
+}
+
+async function loadKeywords(userIds: string[]): Promise<Map<string, string[]>> {
+  const { data: keywords, error } = await supabase
+    .from('keywords')
+    .select('user_id, keyword')
+    .in('user_id', [...new Set(userIds)]);
+
+  if (error) {
+    throw new Error(`Error fetching keywords: ${error.message}`);
+  }
+
+  const keywordsByUser = new Map<string, string[]>();
+  for (const { user_id, keyword } of keywords || []) {
+    keywordsByUser.set(user_id, [...(keywordsByUser.get(user_id) || []), keyword]);
+  }
+  return keywordsByUser;
+}
+
+// Conditional requests are only safe when every company last saw the same
+// response; otherwise a 304 would hide jobs from the ones that are behind
+function sharedValidators(companies: TrackedCompany[]): HttpValidators | null {
+  const [first] = companies;
+  if (!first.listing_url) return null;
+
+  const allMatch = companies.every(company =>
+    company.listing_url === first.listing_url &&
+    company.etag === first.etag &&
+    company.last_modified === first.last_modified
+  );
+  return allMatch ? { url: first.listing_url, etag: first.etag, last_modified: first.last_modified } : null;
+}
+
+// Scrapes a listing once for every company that reads it, then diffs the jobs
+// against each company's own stored jobs and matches them against each
+// owner's keywords
+async function processListingGroup(companies: TrackedCompany[]): Promise<CompanyScrapeResult[]> {
+  const [first] = companies;
+  if (companies.length > 1) {
+    console.log(`🔗 ${first.career_page_url} is tracked by ${companies.length} companies, scraping it once`);
+  }
+
+  let keywordsByUser: Map<string, string[]>;
+  try {
+    keywordsByUser = await loadKeywords(companies.map(company => company.user_id));
+  } catch (error) {
+    console.error(`Error processing ${first.career_page_url}:`, error);
+    return companies.map(company => ({ ...emptyResult(company), status: 'failed', error: error.message }));
+  }
+
+  const skipped: CompanyScrapeResult[] = [];
+  const active = companies.filter(company => {
+    if ((keywordsByUser.get(company.user_id) || []).length > 0) return true;
+    console.log(`⚠️ No keywords for user ${company.user_id}, skipping ${company.company_name}...`);
+    skipped.push({ ...emptyResult(company), status: 'skipped', error: 'No keywords configured' });
+    return false;
+  });
+
+  if (active.length === 0) {
+    return skipped;
+  }
+
+  // Scrape the career page, revalidating against what it returned last time
+  const scrapedData = await scrapeJobPage(first.career_page_url, first, sharedValidators(active));
+
+  const fetchDetails = createDetailFetcher(first.career_page_url);
+  const results: CompanyScrapeResult[] = [];
+  for (const company of active) {
+    results.push(await applyListing(company, keywordsByUser.get(company.user_id) || [], scrapedData, fetchDetails));
+  }
+
+  // Report results in the order the companies were given
+  const byId = new Map([...skipped, ...results].map(result => [result.company_id, result]));
+  return companies.map(company => byId.get(company.id) as CompanyScrapeResult);
+}
+
+async function applyListing(
+  company: TrackedCompany,
+  keywordList: string[],
+  scrapedData: ScrapedData,
+  fetchDetails: DetailFetcher
+): Promise<CompanyScrapeResult> {
+  console.log(`🏢 Processing ${company.company_name}...`);
+
+  const result = emptyResult(company);
+  result.extractor = scrapedData.extractor;
+  
+  try {
+    if (!scrapedData.success) {
+      console.error(`❌ Failed to scrape ${company.company_name}: ${scrapedData.error}`);
+      return { ...result, status: 'failed', error: scrapedData.error, error_category: scrapedData.error_category };
     }
     
-    const html = await response.text();
-    const jobs: Job[] = [];
+    if (scrapedData.not_modified) {
+      console.log(`⏭️ ${company.company_name}: listing not modified, skipping`);
+      return await applyLifecycle(company, { ...result, unchanged: true }, null);
+    }
     
-    // Enhanced job extraction patterns
-    const jobTitlePatterns = [
-      // Common job title patterns in HTML
-      /<h[1-6][^>]*class="[^"]*job[^"]*title[^"]*"[^>]*>([^<]+)<\/h[1-6]>/gi,
-      /<[^>]*class="[^"]*position[^"]*"[^>]*>([^<]+)</gi,
-      /<[^>]*data-job-title="([^"]+)"/gi,
-      /<[^>]*title="([^"]*(?:engineer|developer|scientist|analyst|manager|lead|senior|junior|intern|designer|architect|specialist|coordinator|director)[^"]*)"/gi,
-      // JSON-LD structured data
-      /"title"\s*:\s*"([^"]*(?:engineer|developer|scientist|analyst|manager|lead|senior|junior|intern|designer|architect|specialist|coordinator|director)[^"]*)"/gi,
-      // Common career page patterns
-      /job[_-]?title["\s]*[:=]["\s]*([^"<>\n]+)/gi,
-      // Text patterns for job titles
-      /(?:position|role|job|title):\s*([^\n<>]{10,80}(?:engineer|developer|scientist|analyst|manager|lead|senior|junior|intern|designer|architect|specialist|coordinator|director)[^\n<>]*)/gi
-    ];
+    result.jobs_found = scrapedData.jobs.length;
     
-    const urlPatterns = [
-      /href="([^"]*(?:job|career|position|apply)[^"]*)/gi,
-      /"url"\s*:\s*"([^"]+)"/gi,
-      /data-job-url="([^"]+)"/gi
-    ];
+    // Same listing as last time: nothing can be new, so skip the diff. A
+    // listing that was only partly read is never cached (see below), so an
+    // unchanged one always covers every posting the last run saw.
+    const contentHash = await hashJobListing(scrapedData.jobs);
+    if (contentHash === company.content_hash && !scrapedData.truncated) {
+      console.log(`⏭️ ${company.company_name}: listing unchanged, skipping`);
+      await saveListingCache(company, scrapedData.validators, contentHash);
+      return await applyLifecycle(company, { ...result, unchanged: true }, null);
+    }
     
-    // Split HTML into manageable chunks for processing
-    const chunks = html.match(/.{1,5000}/g) || [html];
+    const { jobs: newJobs, fingerprints, failed: insertFailed } = await insertNewJobs(company, scrapedData.jobs, fetchDetails);
+    result.new_jobs = newJobs.length;
+    result.notifications_sent = await notifyMatches(company, keywordList, newJobs);
     
-    for (const chunk of chunks) {
-      for (const pattern of jobTitlePatterns) {
-        let match;
-        while ((match = pattern.exec(chunk)) !== null) {
-          const title = match[1].trim().replace(/\s+/g, ' ');
-          
-          // Filter out invalid titles
-          if (title.length > 10 && 
-              title.length < 150 && 
-              !title.includes('<') && 
-              !title.includes('>') &&
-              !title.toLowerCase().includes('cookie') &&
-              !title.toLowerCase().includes('privacy') &&
-              /[a-zA-Z]/.test(title)) {
-            
-            // Extract URL if present in the same context
-            let jobUrl = '';
-            const contextStart = Math.max(0, chunk.indexOf(match[0]) - 500);
-            const contextEnd = Math.min(chunk.length, chunk.indexOf(match[0]) + match[0].length + 500);
-            const context = chunk.substring(contextStart, contextEnd);
-            
-            for (const urlPattern of urlPatterns) {
-              const urlMatch = urlPattern.exec(context);
-              if (urlMatch) {
-                jobUrl = urlMatch[1].startsWith('http') ? urlMatch[1] : new URL(urlMatch[1], url).href;
-                break;
-              }
-            }
-            
-            jobs.push({
-              title,
-              url: jobUrl || url,
-              description: '',
-              location: '',
-              posted_date: new Date().toISOString()
-            });
-          }
-        }
+    // A job that failed to insert must be retried, so only remember this
+    // listing once all of it made it in. A listing that was only partly read
+    // isn't remembered either: a later run finding it unchanged would count
+    // the postings past where reading stopped as missed. Nothing is closed off
+    // such a listing, or one that came back empty, which is more often a
+    // broken page than a company with no openings.
+    if (!insertFailed && !scrapedData.truncated) {
+      await saveListingCache(company, scrapedData.validators, contentHash);
+      if (fingerprints.length > 0) {
+        await applyLifecycle(company, result, fingerprints);
       }
     }
     
-    // Remove duplicates and sort by relevance
-    const uniqueJobs = jobs.filter((job, index, self) => 
-      index === self.findIndex(j => j.title.toLowerCase() === job.title.toLowerCase())
-    ).slice(0, 50); // Limit to 50 jobs per company
+    console.log(`✨ ${company.company_name}: ${result.new_jobs} new jobs, ${result.notifications_sent} notifications`);
+    return result;
     
-    console.log(`Found ${uniqueJobs.length} unique jobs from ${url}`);
-    return { jobs: uniqueJobs, success: true };
   } catch (error) {
-    console.error('Scraping error:', error);
-    return { jobs: [], success: false, error: error.message };
+    console.error(`Error processing ${company.company_name}:`, error);
+    return { ...result, status: 'failed', error: error.message, error_category: categorizeError(error) };
   }
 }
 
-async function checkKeywordMatch(jobTitle: string, keywords: string[]): Promise<string | null> {
-  const titleLower = jobTitle.toLowerCase();
-  for (const keyword of keywords) {
-    const keywordLower = keyword.toLowerCase();
-    if (titleLower.includes(keywordLower)) {
-      return keyword;
+async function loadCompanies(companyIds: string[]): Promise<TrackedCompany[]> {
+  const { data, error } = await supabase
+    .from('tracked_companies')
+    .select(COMPANY_COLUMNS)
+    .in('id', companyIds)
+    .order('id');
+
+  if (error) {
+    throw new Error(`Error loading companies: ${error.message}`);
+  }
+  return data || [];
+}
+
+interface WorkerStats {
+  tasks_claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+async function settleTask(task: ScrapeTask, company: TrackedCompany, result: CompanyScrapeResult, workerId: string, stats: WorkerStats) {
+  await recordRunCompany(supabase, task.run_id, result);
+
+  if (result.status !== 'failed') {
+    await completeTask(supabase, task, workerId);
+    await updateCompanyHealth(supabase, company, result);
+    stats.succeeded++;
+    return;
+  }
+
+  const permanent = isPermanentError(result.error_category);
+  const status = await failTask(supabase, task, workerId, {
+    error: result.error || 'Unknown error',
+    errorCategory: result.error_category ?? null,
+    retryable: !permanent,
+    retryBaseSeconds: SCRAPER_RETRY_BASE_SECONDS,
+  });
+  if (status === 'dead') {
+    // Only a task that has used up its retries counts against the company's health
+    console.log(permanent
+      ? `💀 ${company.company_name} failed permanently (${result.error_category}), moved to the dead-letter state`
+      : `💀 ${company.company_name} failed ${task.attempts} times, moved to the dead-letter state`);
+    await updateCompanyHealth(supabase, company, result);
+    stats.dead++;
+  } else {
+    stats.retried++;
+  }
+}
+
+// Runs a batch of claimed tasks. A claim hands over every due task whose
+// company reads the same listing, so each listing is scraped once per batch.
+// Leases are renewed until the batch is done, however many pages and
+// companies that takes; settling a task whose lease was lost anyway logs it.
+async function runTasks(tasks: ScrapeTask[], workerId: string, stats: WorkerStats) {
+  const heartbeat = setInterval(
+    () => renewLeases(supabase, tasks, workerId, SCRAPER_LEASE_SECONDS),
+    SCRAPER_LEASE_SECONDS * 1000 / 3
+  );
+
+  try {
+    await scrapeTasks(tasks, workerId, stats);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function scrapeTasks(tasks: ScrapeTask[], workerId: string, stats: WorkerStats) {
+  let companies: TrackedCompany[];
+  try {
+    companies = await loadCompanies(tasks.map(task => task.company_id));
+  } catch (error) {
+    console.error('Error running scrape tasks:', error);
+    for (const task of tasks) {
+      await failTask(supabase, task, workerId, {
+        error: error.message,
+        errorCategory: null,
+        retryable: true,
+        retryBaseSeconds: SCRAPER_RETRY_BASE_SECONDS,
+      });
+      stats.retried++;
+    }
+    return;
+  }
+
+  const taskByCompany = new Map(tasks.map(task => [task.company_id, task]));
+  const loaded = new Set(companies.map(company => company.id));
+  for (const task of tasks) {
+    if (!loaded.has(task.company_id)) {
+      // Deleted after it was enqueued; there is nothing left to scrape
+      await completeTask(supabase, task, workerId);
+    }
+  }
+
+  for (const group of groupByListing(companies)) {
+    const results = await processListingGroup(group);
+    for (const [index, company] of group.entries()) {
+      await settleTask(taskByCompany.get(company.id) as ScrapeTask, company, results[index], workerId, stats);
     }
   }
-  return null;
 }
 
-async function sendNotificationEmail(userEmail: string, job: Job, keyword: string, companyName: string) {
+// Claims and scrapes queued tasks, SCRAPER_CONCURRENCY at a time, until the
+// queue has nothing due or the time budget runs out. A worker that stops at
+// the budget starts a fresh worker to carry on with the rest. Each task renews
+// the shared scheduled lock; if a manual run has taken the lock, the task goes
+// back to the queue and the worker stops.
+async function drainQueue(workerId: string) {
+  const deadline = Date.now() + SCRAPER_TIME_BUDGET_MS;
+  const stats: WorkerStats = { tasks_claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+  let queueDrained = false;
+  let lockedOut = false;
+
+  const drain = async () => {
+    while (!queueDrained && !lockedOut && Date.now() < deadline) {
+      const tasks = await claimTasks(supabase, workerId, 1, SCRAPER_LEASE_SECONDS);
+      const [task] = tasks;
+      if (!task) {
+        queueDrained = true;
+        return;
+      }
+
+      const lock = await acquireRunLock(supabase, 'scheduled', task.run_id ?? task.id);
+      if (!lock.acquired) {
+        console.log(`🔒 Run ${lock.holder_run_id} holds the scrape lock, returning ${tasks.length} task(s)`);
+        for (const claimed of tasks) {
+          await returnTask(supabase, claimed, workerId, SCRAPER_RETRY_BASE_SECONDS);
+        }
+        lockedOut = true;
+        return;
+      }
+
+      stats.tasks_claimed += tasks.length;
+      await runTasks(tasks, workerId, stats);
+    }
+  };
+
   try {
-    // For now, we'll just log the notification
-    // In production, you would integrate with a service like Resend, SendGrid, etc.
-    console.log(`📧 Email notification would be sent to ${userEmail}:`);
-    console.log(`Subject: 🎯 New Job Match: ${job.title} at ${companyName}`);
-    console.log(`Matched keyword: "${keyword}"`);
-    console.log(`Job URL: ${job.url}`);
-    
-    // Simulate successful email sending
-    return true;
+    await Promise.all(Array.from({ length: Math.max(1, SCRAPER_CONCURRENCY) }, drain));
   } catch (error) {
-    console.error('Email sending error:', error);
-    return false;
+    console.error(`❌ Worker ${workerId} stopped:`, error);
+  }
+
+  const finalizedRuns = await finalizeRuns(supabase);
+  console.log(`🎉 Worker ${workerId} finished:`, { ...stats, finalized_runs: finalizedRuns });
+
+  if (!queueDrained && !lockedOut) {
+    try {
+      await invokeScraperWorker();
+      console.log(`⏩ Worker ${workerId} reached its time budget, started another worker`);
+    } catch (error) {
+      console.error('Error starting follow-up worker:', error);
+    }
   }
 }
 
+function runInProgressResponse(progress: unknown): Response {
+  return jsonResponse({
+    success: false,
+    error: 'run_in_progress',
+    message: 'A scrape run is already in progress',
+    run: progress,
+  }, 409);
+}
+
+type Caller = { scope: 'global' } | { scope: 'user'; userId: string };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  });
+}
+
+// The selectors an ExtractionRecipe may set; `item` is required
+const RECIPE_FIELDS = ['item', 'title', 'url', 'location', 'date'];
+
+function isExtractionRecipe(value: unknown): value is ExtractionRecipe {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const recipe = value as Record<string, unknown>;
+  return typeof recipe.item === 'string' && recipe.item.trim() !== '' &&
+    Object.entries(recipe).every(([field, selector]) => RECIPE_FIELDS.includes(field) && (selector === undefined || typeof selector === 'string'));
+}
+
+// Limits are optional, and otherwise held to the ranges the tracked_companies
+// columns allow
+function isLimit(value: unknown, max: number): value is number | null | undefined {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max);
+}
+
+// A dry run's settings come straight from the request body rather than from
+// a stored company, so they get the checks the database would have made
+function parseDryRunSettings(body: Record<string, unknown>): { settings: Partial<ListingSettings> } | { reason: string } {
+  const { source_type, recipe, max_pages, max_jobs } = body;
+
+  if (source_type !== undefined && !SOURCE_TYPES.includes(source_type as SourceType)) {
+    return { reason: `source_type must be one of ${SOURCE_TYPES.join(', ')}` };
+  }
+  if (recipe !== undefined && recipe !== null && !isExtractionRecipe(recipe)) {
+    return { reason: `recipe must have an item selector, and only ${RECIPE_FIELDS.join(', ')} selectors as strings` };
+  }
+  if (!isLimit(max_pages, 50)) {
+    return { reason: 'max_pages must be a whole number from 1 to 50' };
+  }
+  if (!isLimit(max_jobs, 1000)) {
+    return { reason: 'max_jobs must be a whole number from 1 to 1000' };
+  }
+
+  return {
+    settings: {
+      source_type: source_type as SourceType | undefined,
+      extraction_recipe: isExtractionRecipe(recipe) ? recipe : null,
+      max_pages: max_pages ?? null,
+      max_jobs: max_jobs ?? null,
+    },
+  };
+}
+
+// Service calls (the scheduler) must be signed or carry the service token and
+// may scrape every company; anyone else must present a user JWT and only
+// reaches their own companies
+async function resolveCaller(req: Request, rawBody: string): Promise<{ caller: Caller } | { reason: string }> {
+  if (hasServiceCredentials(req)) {
+    const rejection = await verifyServiceRequest(req, rawBody);
+    return rejection ? { reason: rejection } : { caller: { scope: 'global' } };
+  }
+
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const { data, error } = token ? await supabase.auth.getUser(token) : { data: { user: null }, error: null };
+  if (error || !data.user) {
+    return { reason: 'Sign in to run the scraper' };
+  }
+  return { caller: { scope: 'user', userId: data.user.id } };
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const deadline = Date.now() + SCRAPER_TIME_BUDGET_MS;
+  let runId: string | null = null;
+  let lockRunId: string | null = null;
+
   try {
-    console.log('🚀 Starting job scraping process...');
+    // Read the raw body first: request signatures are computed over the exact bytes
+    const rawBody = req.method === 'POST' ? await req.text() : '';
+
+    const auth = await resolveCaller(req, rawBody);
+    if ('reason' in auth) {
+      return jsonResponse({
+        success: false,
+        error: 'unauthorized',
+        message: auth.reason,
+      }, 401);
+    }
+    const { caller } = auth;
+
+    let body;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return jsonResponse({ success: false, error: 'Request body must be valid JSON' }, 400);
+    }
+
+    // Dry runs report what a URL would yield (jobs, extractor used, warnings)
+    // without touching the database
+    if (body.dry_run) {
+      if (!body.url || typeof body.url !== 'string') {
+        return jsonResponse({ success: false, error: 'A url is required for a dry run' }, 400);
+      }
+
+      const unsafe = await checkPublicUrl(body.url);
+      if (unsafe) {
+        return jsonResponse({ success: false, error: unsafe }, 400);
+      }
+      const parsed = parseDryRunSettings(body);
+      if ('reason' in parsed) {
+        return jsonResponse({ success: false, error: parsed.reason }, 400);
+      }
+
+      return jsonResponse(await scrapeJobPage(body.url, parsed.settings));
+    }
+
+    // Service calls are queue workers: acknowledge now and drain the queue in
+    // the background. The scheduler enqueues the tasks they work through.
+    if (caller.scope === 'global') {
+      const workerId = crypto.randomUUID();
+      console.log(`🚀 Starting queue worker ${workerId}...`);
+      EdgeRuntime.waitUntil(drainQueue(workerId));
+      return jsonResponse({ success: true, message: 'Queue worker started', worker_id: workerId }, 202);
+    }
+
+    console.log('🚀 Starting manual job scraping process...');
+    
+    // Manual runs hold the scrape lock exclusively, so they never overlap a
+    // scheduled run or another manual run
+    const newRunId = crypto.randomUUID();
+    const lock = await acquireRunLock(supabase, 'manual', newRunId);
+    if (!lock.acquired) {
+      console.log(`🔒 Run ${lock.holder_run_id} is already in progress`);
+      return runInProgressResponse(await getRunProgress(supabase, lock.holder_run_id));
+    }
+    lockRunId = newRunId;
     
-    // Get all tracked companies with user profiles
-    const { data: companies, error: companiesError } = await supabase
+    // Get the caller's tracked companies with user profiles, optionally
+    // limited to a single one
+    let companiesQuery = supabase
       .from('tracked_companies')
-      .select(`
-        id,
-        company_name,
-        career_page_url,
-        user_id,
-        profiles!tracked_companies_user_id_fkey(email)
-      `);
+      .select(COMPANY_COLUMNS)
+      .eq('user_id', caller.userId)
+      .order('id');
+
+    // Paused companies are skipped unless someone re-scrapes one explicitly
+    let startCursor: string | null = null;
+    if (body.company_id) {
+      companiesQuery = companiesQuery.eq('id', body.company_id);
+    } else {
+      companiesQuery = companiesQuery.is('paused_at', null);
+
+      // Pick up after the last run that ran out of time
+      startCursor = await claimResumeCursor(supabase, 'manual', caller.userId);
+      if (startCursor) {
+        console.log(`⏩ Resuming after company ${startCursor}`);
+        companiesQuery = companiesQuery.gt('id', startCursor);
+      }
+    }
+
+    const { data: companies, error: companiesError } = await companiesQuery;
     
     if (companiesError) {
       throw companiesError;
     }
+
+    if (body.company_id && (companies?.length || 0) === 0) {
+      return jsonResponse({ success: false, error: 'Company not found' }, 404);
+    }
     
     console.log(`📊 Found ${companies?.length || 0} companies to scrape`);
     
-    let totalNewJobs = 0;
-    let totalNotifications = 0;
-    const processedCompanies = [];
+    runId = await startRun(supabase, newRunId, 'manual', caller.userId, companies?.length || 0);
     
-    for (const company of companies || []) {
-      console.log(`🏢 Processing ${company.company_name}...`);
-      
-      try {
-        // Get user's keywords
-        const { data: keywords, error: keywordsError } = await supabase
-          .from('keywords')
-          .select('keyword')
-          .eq('user_id', company.user_id);
-        
-        if (keywordsError) {
-          console.error('Error fetching keywords:', keywordsError);
-          continue;
-        }
-        
-        const keywordList = keywords?.map(k => k.keyword) || [];
-        if (keywordList.length === 0) {
-          console.log(`⚠️ No keywords for user ${company.user_id}, skipping...`);
-          continue;
-        }
-        
-        // Scrape the company's career page
-        const scrapedData = await scrapeJobPage(company.career_page_url);
-        
-        if (!scrapedData.success) {
-          console.error(`❌ Failed to scrape ${company.company_name}: ${scrapedData.error}`);
-          processedCompanies.push({
-            company: company.company_name,
-            success: false,
-            error: scrapedData.error,
-            jobs_found: 0
-          });
-          continue;
+    const companyList: TrackedCompany[] = companies || [];
+    const listingGroups = groupByListing(companyList);
+    const { results: groupResults, deferred: deferredGroups } = await runPool(
+      listingGroups,
+      SCRAPER_CONCURRENCY,
+      deadline,
+      async (group) => {
+        const groupResult = await processListingGroup(group);
+        for (const [index, company] of group.entries()) {
+          await recordRunCompany(supabase, runId, groupResult[index]);
+          await updateCompanyHealth(supabase, company, groupResult[index]);
         }
-        
-        let companyNewJobs = 0;
-        let companyNotifications = 0;
-        
-        // Process each job
-        for (const job of scrapedData.jobs) {
-          // Check if job already exists (simple check by title and company)
-          const { data: existingJob } = await supabase
-            .from('jobs')
-            .select('id')
-            .eq('user_id', company.user_id)
-            .eq('company', company.company_name)
-            .eq('position', job.title)
-            .single();
-          
-          if (existingJob) {
-            continue; // Job already exists
-          }
-          
-          // Insert new job with 'applied' status as default for scraped jobs
-          const { data: newJob, error: jobError } = await supabase
-            .from('jobs')
-            .insert({
-              user_id: company.user_id,
-              company: company.company_name,
-              position: job.title,
-              status: 'applied' // Default status for scraped jobs
-            })
-            .select('id')
-            .single();
-          
-          if (jobError) {
-            console.error('Error inserting job:', jobError);
-            continue;
-          }
-          
-          companyNewJobs++;
-          console.log(`✅ Added new job: ${job.title}`);
-          
-          // Check for keyword matches
-          const matchedKeyword = await checkKeywordMatch(job.title, keywordList);
-          
-          if (matchedKeyword) {
-            console.log(`🎯 Keyword match found: "${matchedKeyword}" in "${job.title}"`);
-            
-            // Send email notification
-            const userEmail = company.profiles?.email;
-            if (userEmail) {
-              const emailSent = await sendNotificationEmail(
-                userEmail,
-                job,
-                matchedKeyword,
-                company.company_name
-              );
-              
-              // Record notification
-              const { error: notificationError } = await supabase
-                .from('notifications')
-                .insert({
-                  user_id: company.user_id,
-                  job_id: newJob.id,
-                  keyword_matched: matchedKeyword,
-                  email_sent: emailSent
-                });
-              
-              if (notificationError) {
-                console.error('Error recording notification:', notificationError);
-              } else {
-                companyNotifications++;
-              }
-            }
-          }
-        }
-        
-        totalNewJobs += companyNewJobs;
-        totalNotifications += companyNotifications;
-        
-        processedCompanies.push({
-          company: company.company_name,
-          success: true,
-          jobs_found: companyNewJobs,
-          notifications_sent: companyNotifications
-        });
-        
-        console.log(`✨ ${company.company_name}: ${companyNewJobs} new jobs, ${companyNotifications} notifications`);
-        
-      } catch (error) {
-        console.error(`Error processing ${company.company_name}:`, error);
-        processedCompanies.push({
-          company: company.company_name,
-          success: false,
-          error: error.message,
-          jobs_found: 0
-        });
+        return groupResult;
       }
+    );
+    const processedCompanies = groupResults.flat();
+    const deferred = listingGroups.slice(groupResults.length).reduce((total, group) => total + group.length, 0);
+    
+    const failed = processedCompanies.filter(company => company.status === 'failed').length;
+    const stats = {
+      companies_processed: processedCompanies.length,
+      companies_completed: processedCompanies.length - failed,
+      companies_failed: failed,
+      companies_deferred: deferred,
+      new_jobs_found: processedCompanies.reduce((total, company) => total + company.new_jobs, 0),
+      notifications_sent: processedCompanies.reduce((total, company) => total + company.notifications_sent, 0)
+    };
+
+    // Companies are grouped by listing, so the ones handled are not always a
+    // prefix of the id order; the next run continues after the last company
+    // with nothing unhandled before it and may see a few again. If the very
+    // first company was never started, it continues from where this run began.
+    const handled = new Set(processedCompanies.map(company => company.company_id));
+    const firstUnhandled = companyList.findIndex(company => !handled.has(company.id));
+    let resumeCursor: string | null = null;
+    if (deferred > 0) {
+      resumeCursor = firstUnhandled > 0 ? companyList[firstUnhandled - 1].id : startCursor;
+    }
+    if (deferred > 0) {
+      console.log(`⏳ Time budget exhausted, deferring ${deferred} companies to the next run`);
     }
+    await finishRun(supabase, runId, stats, undefined, resumeCursor);
     
     const result = {
       success: true,
-      message: `Scraping completed successfully`,
-      stats: {
-        companies_processed: companies?.length || 0,
-        new_jobs_found: totalNewJobs,
-        notifications_sent: totalNotifications
-      },
+      message: deferred > 0
+        ? `Scraping stopped at the time budget, ${deferred} companies deferred to the next run`
+        : `Scraping completed successfully`,
+      run_id: runId,
+      stats,
       details: processedCompanies
     };
     
@@ -331,6 +1070,7 @@ const handler = async (req: Request): Promise<Response> => {
     
   } catch (error: any) {
     console.error('❌ Handler error:', error);
+    await finishRun(supabase, runId, null, error.message);
     return new Response(
       JSON.stringify({ 
         success: false, 
@@ -345,6 +1085,10 @@ const handler = async (req: Request): Promise<Response> => {
         },
       }
     );
+  } finally {
+    if (lockRunId) {
+      await releaseRunLock(supabase, lockRunId);
+    }
   }
 };
 
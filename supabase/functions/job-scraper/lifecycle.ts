@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { sendPostingClosedEmail } from './email.ts';
+import type { TrackedCompany } from './types.ts';
+
+// A posting missing from this many successful scrapes in a row is closed, so
+// one flaky read of a listing doesn't close everything on it
+const CLOSE_AFTER_MISSED_RUNS = parseInt(Deno.env.get('SCRAPER_CLOSE_AFTER_MISSED_RUNS') ?? '3', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LifecycleChanges {
+  closed: string[];
+  reopened: string[];
+}
+
+// Marks the company's postings as seen or missed on this run and resolves to
+// the ones that were closed or reopened. `fingerprints` lists every posting on
+// the listing, or is null when the listing hasn't changed since the last run.
+export async function recordSightings(
+  supabase: SupabaseClient,
+  company: TrackedCompany,
+  fingerprints: string[] | null
+): Promise<LifecycleChanges> {
+  const { data, error } = await supabase.rpc('record_job_sightings', {
+    p_company_id: company.id,
+    p_seen_fingerprints: fingerprints,
+    p_close_after_missed_runs: CLOSE_AFTER_MISSED_RUNS,
+  });
+
+  if (error) {
+    console.error(`Error recording postings seen for ${company.company_name}:`, error);
+    return { closed: [], reopened: [] };
+  }
+
+  const changes: { job_id: string; change: 'closed' | 'reopened' }[] = data || [];
+  return {
+    closed: changes.filter(({ change }) => change === 'closed').map(({ job_id }) => job_id),
+    reopened: changes.filter(({ change }) => change === 'reopened').map(({ job_id }) => job_id),
+  };
+}
+
+// Tells owners who opted in that a posting they are pursuing was taken down:
+// one they moved on to interviewing or offered, or one that matched their
+// keywords. Resolves to how many notifications were recorded.
+export async function notifyPostingsClosed(supabase: SupabaseClient, company: TrackedCompany, jobIds: string[]): Promise<number> {
+  if (jobIds.length === 0 || !company.profiles?.notify_on_posting_closed) return 0;
+
+  const [{ data: jobs, error: jobsError }, { data: matches, error: matchesError }] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('id, position, status, created_at, closed_at')
+      .in('id', jobIds),
+    supabase
+      .from('notifications')
+      .select('job_id')
+      .eq('type', 'job_match')
+      .in('job_id', jobIds),
+  ]);
+
+  if (jobsError || matchesError) {
+    console.error(`Error loading closed postings for ${company.company_name}:`, jobsError || matchesError);
+    return 0;
+  }
+
+  const matched = new Set((matches || []).map(match => match.job_id));
+  const pursued = (jobs || []).filter(job =>
+    job.status === 'interviewing' || job.status === 'offered' || matched.has(job.id)
+  );
+
+  const notifications = [];
+  for (const job of pursued) {
+    const daysLive = Math.max(1, Math.round((new Date(job.closed_at).getTime() - new Date(job.created_at).getTime()) / DAY_MS));
+    const message = `${job.position} at ${company.company_name} was taken down after ${daysLive} day${daysLive === 1 ? '' : 's'}`;
+    console.log(`📪 ${message}`);
+
+    const emailSent = await sendPostingClosedEmail(company.profiles.email, company.company_name, job.position, daysLive);
+    notifications.push({
+      user_id: company.user_id,
+      type: 'posting_closed',
+      job_id: job.id,
+      company_id: company.id,
+      message,
+      email_sent: emailSent
+    });
+  }
+
+  if (notifications.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(notifications);
+
+  if (error) {
+    console.error('Error recording posting closed notifications:', error);
+    return 0;
+  }
+  return notifications.length;
+}
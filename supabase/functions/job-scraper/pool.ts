@@ -0,0 +1,31 @@
+export interface PoolResult<R> {
+  results: R[];
+  // Items that were never started because the deadline passed
+  deferred: number;
+}
+
+// Runs `worker` over `items` with at most `concurrency` calls in flight.
+// Items are started in order and nothing new starts once `deadline` (epoch ms)
+// has passed, so the items that ran are always a prefix of `items`; in-flight
+// work is allowed to finish.
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  deadline: number,
+  worker: (item: T) => Promise<R>
+): Promise<PoolResult<R>> {
+  const results: R[] = [];
+  let next = 0;
+
+  const drain = async () => {
+    while (next < items.length && Date.now() < deadline) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, drain);
+  await Promise.all(workers);
+
+  return { results: results.slice(0, next), deferred: items.length - next };
+}
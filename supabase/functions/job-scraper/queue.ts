@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+export interface ScrapeTask {
+  id: string;
+  run_id: string | null;
+  company_id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Thin wrappers around the queue functions in the scrape_queue migration;
+// the locking and retry rules live in SQL so every worker applies them the
+// same way
+
+export async function claimTasks(
+  supabase: SupabaseClient,
+  workerId: string,
+  limit: number,
+  leaseSeconds: number
+): Promise<ScrapeTask[]> {
+  const { data, error } = await supabase.rpc('claim_scrape_tasks', {
+    p_worker: workerId,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Error claiming scrape tasks: ${error.message}`);
+  }
+  return data || [];
+}
+
+// Keeps the worker's claim on tasks it is still scraping; tasks it has settled
+// or lost to another worker are skipped
+export async function renewLeases(
+  supabase: SupabaseClient,
+  tasks: ScrapeTask[],
+  workerId: string,
+  leaseSeconds: number
+) {
+  const { error } = await supabase.rpc('renew_scrape_task_leases', {
+    p_task_ids: tasks.map(task => task.id),
+    p_worker: workerId,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    console.error('Error renewing scrape task leases:', error);
+  }
+}
+
+export async function completeTask(supabase: SupabaseClient, task: ScrapeTask, workerId: string) {
+  const { data: settled, error } = await supabase.rpc('complete_scrape_task', {
+    p_task_id: task.id,
+    p_worker: workerId,
+  });
+
+  if (error) {
+    console.error(`Error completing scrape task ${task.id}:`, error);
+  } else if (!settled) {
+    console.warn(`Lease on scrape task ${task.id} expired before it completed`);
+  }
+}
+
+export interface TaskFailure {
+  error: string;
+  errorCategory: string | null;
+  // False for permanent failures, which go straight to the dead-letter state
+  retryable: boolean;
+  retryBaseSeconds: number;
+}
+
+// Resolves to the task's new status: 'pending' when it will be retried,
+// 'dead' when it has used up its attempts (or can't be retried), or null if
+// the lease was lost
+export async function failTask(
+  supabase: SupabaseClient,
+  task: ScrapeTask,
+  workerId: string,
+  failure: TaskFailure
+): Promise<string | null> {
+  const { data: status, error } = await supabase.rpc('fail_scrape_task', {
+    p_task_id: task.id,
+    p_worker: workerId,
+    p_error: failure.error,
+    p_retry_base_seconds: failure.retryBaseSeconds,
+    p_error_category: failure.errorCategory,
+    p_retryable: failure.retryable,
+  });
+
+  if (error) {
+    console.error(`Error failing scrape task ${task.id}:`, error);
+    return null;
+  }
+  if (!status) {
+    console.warn(`Lease on scrape task ${task.id} expired before it failed`);
+  }
+  return status;
+}
+
+// Hands a claimed task back without using up an attempt
+export async function returnTask(supabase: SupabaseClient, task: ScrapeTask, workerId: string, delaySeconds: number) {
+  const { error } = await supabase.rpc('return_scrape_task', {
+    p_task_id: task.id,
+    p_worker: workerId,
+    p_delay_seconds: delaySeconds,
+  });
+
+  if (error) {
+    console.error(`Error returning scrape task ${task.id}:`, error);
+  }
+}
+
+export async function finalizeRuns(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase.rpc('finalize_scrape_runs');
+
+  if (error) {
+    console.error('Error finalizing scrape runs:', error);
+    return [];
+  }
+  return data || [];
+}
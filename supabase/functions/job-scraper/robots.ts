@@ -0,0 +1,119 @@
+// robots.txt parsing and matching per RFC 9309: the group for the most
+// specific matching user agent applies (falling back to `*`), and within it
+// the longest matching Allow/Disallow pattern wins, with Allow winning ties.
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  // Seconds between requests the site asks for, if any
+  crawlDelay: number | null;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelay: null };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }], crawlDelay: null };
+
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive user-agent lines share the group that follows them
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!collectingAgents || !current) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return groups;
+}
+
+// Merges every group naming the most specific agent that matches our product
+// token, or the `*` groups when none does
+export function selectPolicy(groups: RobotsGroup[], productToken: string): RobotsPolicy {
+  const token = productToken.toLowerCase();
+
+  let bestAgent = '';
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      if (agent !== '*' && token.startsWith(agent) && agent.length > bestAgent.length) {
+        bestAgent = agent;
+      }
+    }
+  }
+
+  const agent = bestAgent || '*';
+  const matching = groups.filter(group => group.agents.includes(agent));
+  if (matching.length === 0) {
+    return ALLOW_ALL;
+  }
+
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null);
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  if (pathWithQuery === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.pattern).test(pathWithQuery)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
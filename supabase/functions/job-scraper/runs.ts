@@ -0,0 +1,136 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import type { CompanyScrapeResult } from './types.ts';
+
+export type TriggerSource = 'scheduled' | 'manual';
+
+export interface RunStats {
+  companies_processed: number;
+  companies_completed: number;
+  companies_failed: number;
+  companies_deferred: number;
+  new_jobs_found: number;
+  notifications_sent: number;
+}
+
+// Run history is best-effort: a failure to record it is logged but never
+// stops the scrape itself
+
+// The run id is chosen up front because the run lock is taken under it
+// before the run is recorded
+export async function startRun(
+  supabase: SupabaseClient,
+  runId: string,
+  triggerSource: TriggerSource,
+  triggeredBy: string | null,
+  companiesTotal: number
+): Promise<string | null> {
+  const { error } = await supabase
+    .from('scrape_runs')
+    .insert({
+      id: runId,
+      trigger_source: triggerSource,
+      triggered_by: triggeredBy,
+      companies_total: companiesTotal,
+    });
+
+  if (error) {
+    console.error('Error recording scrape run:', error);
+    return null;
+  }
+  return runId;
+}
+
+// A run that ran out of time leaves a cursor (the id of the last company it
+// got to). The next full run for the same trigger takes the cursor over and
+// continues with the companies after it; claiming is conditional so two
+// overlapping runs never resume from the same cursor.
+export async function claimResumeCursor(
+  supabase: SupabaseClient,
+  triggerSource: TriggerSource,
+  triggeredBy: string | null
+): Promise<string | null> {
+  let query = supabase
+    .from('scrape_runs')
+    .select('id, resume_cursor')
+    .eq('trigger_source', triggerSource)
+    .eq('status', 'partial')
+    .is('resumed_at', null)
+    .order('started_at', { ascending: false })
+    .limit(1);
+
+  query = triggeredBy ? query.eq('triggered_by', triggeredBy) : query.is('triggered_by', null);
+
+  const { data: partialRun, error } = await query.maybeSingle();
+  if (error) {
+    console.error('Error looking up resume cursor:', error);
+    return null;
+  }
+  if (!partialRun?.resume_cursor) return null;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('scrape_runs')
+    .update({ resumed_at: new Date().toISOString() })
+    .eq('id', partialRun.id)
+    .is('resumed_at', null)
+    .select('id');
+
+  if (claimError) {
+    console.error('Error claiming resume cursor:', claimError);
+    return null;
+  }
+  return claimed && claimed.length > 0 ? partialRun.resume_cursor : null;
+}
+
+export async function recordRunCompany(supabase: SupabaseClient, runId: string | null, result: CompanyScrapeResult) {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from('scrape_run_companies')
+    .insert({
+      run_id: runId,
+      company_id: result.company_id,
+      user_id: result.user_id,
+      company_name: result.company,
+      status: result.status,
+      error: result.error ?? null,
+      error_category: result.error_category ?? null,
+      extractor: result.extractor ?? null,
+      jobs_found: result.jobs_found,
+      new_jobs: result.new_jobs,
+      notifications_created: result.notifications_sent,
+      unchanged: result.unchanged ?? false,
+      postings_closed: result.postings_closed ?? 0,
+      postings_reopened: result.postings_reopened ?? 0,
+    });
+
+  if (error) {
+    console.error(`Error recording scrape result for ${result.company}:`, error);
+  }
+}
+
+export async function finishRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  stats: RunStats | null,
+  errorMessage?: string,
+  resumeCursor?: string | null
+) {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from('scrape_runs')
+    .update({
+      // Deferring any company makes a run partial, cursor or not: a run that
+      // started none of its companies resumes from where it started itself
+      status: errorMessage ? 'failed' : stats && stats.companies_deferred > 0 ? 'partial' : 'completed',
+      finished_at: new Date().toISOString(),
+      error: errorMessage ?? null,
+      resume_cursor: resumeCursor ?? null,
+      ...stats,
+    })
+    .eq('id', runId);
+
+  if (error) {
+    console.error('Error finishing scrape run:', error);
+  }
+}
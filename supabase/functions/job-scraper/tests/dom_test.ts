@@ -0,0 +1,67 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { extractDomJobs } from '../extractors/dom.ts';
+import { readFixture, readJsonFixture } from './helpers.ts';
+
+// Each listing fixture is a saved careers page (<name>.html) next to the jobs
+// a person reading it would list (<name>.json)
+interface ListingFixture {
+  url: string;
+  jobs: { title: string; url: string; location: string }[];
+}
+
+const listings = ['card-grid', 'table', 'departments', 'loose-links'];
+
+// Below these, a change to the heuristics is a regression: a wrong job costs
+// the user more than a missed one, so precision has the higher bar
+const MIN_PRECISION = 1;
+const MIN_RECALL = 0.9;
+
+const readListing = async (name: string) => {
+  const fixture: ListingFixture = await readJsonFixture(`listings/${name}.json`);
+  return { fixture, html: await readFixture(`listings/${name}.html`) };
+};
+
+// A found job counts as correct when its URL is an expected job's URL and
+// the title matches too
+const score = (fixture: ListingFixture, html: string) => {
+  const found = extractDomJobs(html, fixture.url);
+  const expected = new Map(fixture.jobs.map(job => [job.url, job]));
+  const correct = found.filter(job => job.url && expected.get(job.url)?.title === job.title);
+  return { found, correct, expected };
+};
+
+for (const name of listings) {
+  Deno.test(`extractDomJobs finds only real jobs on the ${name} listing`, async () => {
+    const { fixture, html } = await readListing(name);
+    const { found, correct } = score(fixture, html);
+
+    assertEquals(
+      found.filter(job => !correct.includes(job)).map(job => `${job.title} <${job.url}>`),
+      [],
+      'extracted jobs that are not on the listing',
+    );
+    for (const job of correct) {
+      assertEquals(job.location, fixture.jobs.find(expected => expected.url === job.url)?.location, `location of ${job.title}`);
+    }
+  });
+}
+
+Deno.test('extractDomJobs keeps its precision and recall across the saved listings', async () => {
+  let found = 0;
+  let correct = 0;
+  let expected = 0;
+  for (const name of listings) {
+    const { fixture, html } = await readListing(name);
+    const result = score(fixture, html);
+    found += result.found.length;
+    correct += result.correct.length;
+    expected += result.expected.size;
+  }
+
+  const precision = found === 0 ? 0 : correct / found;
+  const recall = correct / expected;
+  console.log(`extractDomJobs: precision ${precision.toFixed(2)}, recall ${recall.toFixed(2)} (${correct} of ${found} found, ${expected} expected)`);
+
+  assert(precision >= MIN_PRECISION, `precision ${precision.toFixed(2)} is below ${MIN_PRECISION}`);
+  assert(recall >= MIN_RECALL, `recall ${recall.toFixed(2)} is below ${MIN_RECALL}`);
+});
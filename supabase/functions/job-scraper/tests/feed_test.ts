@@ -0,0 +1,90 @@
+import { assert, assertEquals, assertNotEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { looksLikeFeed, parseFeed } from '../extractors/feed.ts';
+import { fingerprintJob } from '../fingerprint.ts';
+import { readFixture } from './helpers.ts';
+
+Deno.test('looksLikeFeed recognizes RSS, Atom and JSON Feed but not HTML', async () => {
+  for (const name of ['feed-rss.xml', 'feed-atom.xml', 'feed.json']) {
+    assert(looksLikeFeed(await readFixture(name)), name);
+  }
+  assert(!looksLikeFeed(await readFixture('jsonld-careers.html')));
+});
+
+Deno.test('parseFeed reads RSS items with CDATA, escaped HTML and non-permalink guids', async () => {
+  const jobs = parseFeed(await readFixture('feed-rss.xml'), 'https://hooli.example/jobs.rss');
+
+  assertEquals(jobs, [
+    {
+      title: 'Platform Engineer & SRE',
+      url: 'https://hooli.example/jobs/platform-engineer',
+      guid: 'hooli-job-1042',
+      description: 'Run Hooli XYZ at scale.',
+      location: 'Palo Alto, CA',
+      posted_date: '2026-10-12T16:00:00.000Z',
+    },
+    // A permalink guid doubles as the link
+    {
+      title: 'Brand Designer',
+      url: 'https://hooli.example/jobs/brand-designer',
+      guid: 'https://hooli.example/jobs/brand-designer',
+      description: 'Make Hooli look good.',
+      location: '',
+      posted_date: '2026-10-14T08:15:00.000Z',
+    },
+    // A javascript: link is dropped, and the untitled item skipped
+    {
+      title: 'Recruiter',
+      url: undefined,
+      guid: 'hooli-job-1077',
+      description: '',
+      location: '',
+      posted_date: '2026-10-15T10:00:00.000Z',
+    },
+  ]);
+});
+
+Deno.test('parseFeed reads Atom entries through their alternate link', async () => {
+  const jobs = parseFeed(await readFixture('feed-atom.xml'), 'https://piedpiper.example/careers.atom');
+
+  assertEquals(jobs, [
+    {
+      title: 'Compression Researcher',
+      url: 'https://piedpiper.example/careers/compression-researcher',
+      guid: 'urn:uuid:7f1b2a44-1d55-4d0e-9a59-6a3c1c1f2e01',
+      description: 'Beat a Weissman score of 5.2.',
+      location: 'Palo Alto, CA',
+      posted_date: '2026-10-10T09:00:00.000Z',
+    },
+    {
+      title: 'Community Manager',
+      url: 'https://piedpiper.example/careers/community-manager',
+      guid: 'tag:piedpiper.example,2026:community-manager',
+      description: 'Grow the Pied Piper community.',
+      location: '',
+      posted_date: '2026-10-13T17:45:00.000Z',
+    },
+  ]);
+});
+
+Deno.test('parseFeed reads JSON Feed items', async () => {
+  const jobs = parseFeed(await readFixture('feed.json'), 'https://aviato.example/feed.json');
+
+  assertEquals(jobs.map(({ title, url, guid, description }) => ({ title, url, guid, description })), [
+    // Numeric ids become string guids
+    { title: 'Founding Engineer', url: 'https://aviato.example/jobs/3141', guid: '3141', description: 'Join Aviato.' },
+    { title: 'Growth Lead', url: 'https://aviato.example/jobs/growth-lead', guid: 'growth-lead', description: 'Take Aviato to the next level.' },
+  ]);
+  assertEquals(jobs[1].posted_date, '2026-10-17T08:00:00.000Z');
+});
+
+Deno.test('a feed item keeps its fingerprint when its title or link changes', async () => {
+  const [job] = parseFeed(await readFixture('feed-rss.xml'), 'https://hooli.example/jobs.rss');
+  const fingerprint = await fingerprintJob('company-1', job);
+
+  assertEquals(
+    await fingerprintJob('company-1', { ...job, title: 'Senior Platform Engineer', url: 'https://hooli.example/jobs/1042' }),
+    fingerprint,
+  );
+  assertNotEquals(await fingerprintJob('company-2', job), fingerprint);
+  assertNotEquals(await fingerprintJob('company-1', { ...job, guid: undefined }), fingerprint);
+});
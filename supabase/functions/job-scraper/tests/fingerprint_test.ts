@@ -0,0 +1,72 @@
+import { assertEquals, assertNotEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { canonicalizeUrl, fingerprintJob, matchStoredJobs, normalizeTitle } from '../fingerprint.ts';
+import type { Job } from '../types.ts';
+
+const companyId = '00000000-0000-0000-0000-00000000000a';
+
+const listed = (title: string, url?: string): Job => ({
+  title,
+  url,
+  description: '',
+  location: '',
+  posted_date: '2026-10-19T00:00:00.000Z',
+});
+
+Deno.test('canonicalizeUrl drops fragments, tracking parameters and trailing slashes', () => {
+  assertEquals(
+    canonicalizeUrl(' https://Boards.Greenhouse.io:443/acme/jobs/123/?utm_source=linkedin&gh_src=abc&gh_jid=123#apply '),
+    'https://boards.greenhouse.io/acme/jobs/123?gh_jid=123',
+  );
+  assertEquals(canonicalizeUrl('https://acme.example/careers?team=eng&b=2&a=1&fbclid=x'), 'https://acme.example/careers?a=1&b=2&team=eng');
+  assertEquals(canonicalizeUrl('https://jobs.lever.co/acme/abc?lever-source[]=LinkedIn&lever-origin=applied'), 'https://jobs.lever.co/acme/abc');
+  assertEquals(canonicalizeUrl('https://acme.example/'), 'https://acme.example/');
+});
+
+Deno.test('canonicalizeUrl passes through what is not a URL', () => {
+  assertEquals(canonicalizeUrl(undefined), '');
+  assertEquals(canonicalizeUrl(' /jobs/7 '), '/jobs/7');
+});
+
+Deno.test('fingerprintJob ignores cosmetic changes to the title and link', async () => {
+  const fingerprint = await fingerprintJob(companyId, listed('Senior Engineer, Platform', 'https://acme.example/jobs/1'));
+
+  assertEquals(normalizeTitle('  SENIOR   Engineer – Platform! '), 'senior engineer platform');
+  assertEquals(await fingerprintJob(companyId, listed('senior engineer - platform', 'https://acme.example/jobs/1/?ref=home')), fingerprint);
+  assertNotEquals(await fingerprintJob(companyId, listed('Senior Engineer, Platform', 'https://acme.example/jobs/2')), fingerprint);
+});
+
+Deno.test('matchStoredJobs backfills rows stored before fingerprints existed', async () => {
+  const engineer = listed('Senior Engineer', 'https://acme.example/jobs/1?utm_source=feed');
+  const designer = listed('Product Designer', 'https://acme.example/jobs/2');
+  const analyst = listed('Data Analyst', 'https://acme.example/jobs/3');
+  const newcomer = listed('Support Lead', 'https://acme.example/jobs/4');
+  const analystFingerprint = await fingerprintJob(companyId, analyst);
+
+  // An upgraded table: a row with a fingerprint, a legacy row with a URL and
+  // legacy rows without one
+  const { fingerprints, unmatched, backfills } = await matchStoredJobs(companyId, [
+    { id: 'fingerprinted', position: 'Data Analyst', url: 'https://acme.example/jobs/3', fingerprint: analystFingerprint },
+    { id: 'with-url', position: 'Senior Engineer', url: 'https://acme.example/jobs/1', fingerprint: null },
+    { id: 'without-url', position: 'product designer', url: null, fingerprint: null },
+    { id: 'gone', position: 'Office Manager', url: null, fingerprint: null },
+  ], [engineer, designer, analyst, newcomer, designer]);
+
+  assertEquals(fingerprints.length, 5);
+  assertEquals(backfills, [
+    { id: 'with-url', fingerprint: fingerprints[0], job: engineer },
+    { id: 'without-url', fingerprint: fingerprints[1], job: designer },
+  ]);
+  assertEquals([...unmatched], [[fingerprints[3], newcomer]]);
+});
+
+Deno.test('matchStoredJobs matches each row without a URL to one listed job', async () => {
+  const first = listed('Sales Representative', 'https://acme.example/jobs/10');
+  const second = listed('Sales Representative', 'https://acme.example/jobs/11');
+
+  const { fingerprints, unmatched, backfills } = await matchStoredJobs(companyId, [
+    { id: 'legacy', position: 'Sales Representative', url: null, fingerprint: null },
+  ], [first, second]);
+
+  assertEquals(backfills, [{ id: 'legacy', fingerprint: fingerprints[0], job: first }]);
+  assertEquals([...unmatched], [[fingerprints[1], second]]);
+});
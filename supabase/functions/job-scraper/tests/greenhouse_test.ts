@@ -0,0 +1,41 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { getGreenhouseBoardToken, parseGreenhouseJobs } from '../extractors/greenhouse.ts';
+import { readJsonFixture } from './helpers.ts';
+
+Deno.test('parseGreenhouseJobs maps a recorded boards API response', async () => {
+  const jobs = parseGreenhouseJobs(await readJsonFixture('greenhouse-board.json'));
+
+  assertEquals(jobs, [
+    {
+      title: 'Senior Backend Engineer, Payments',
+      url: 'https://boards.greenhouse.io/acme/jobs/4012345006',
+      // The content is entity-escaped HTML, itself containing entities
+      description: "Acme builds payment rails for marketplaces.\n\nWhat you'll do\n• Design ledgers & reconciliation jobs\n• Own our Go services\nSalary: €85k–€105k",
+      location: 'Berlin, Germany',
+      posted_date: '2026-09-30T15:02:17.000Z',
+    },
+    {
+      title: 'Product Designer',
+      url: 'https://acme.com/careers/open-roles?gh_jid=4012399006',
+      description: 'Shape the checkout experience used by 2M merchants.',
+      location: 'Remote - US',
+      // Never published on its own board, so the last update stands in
+      posted_date: '2026-10-16T21:40:03.000Z',
+    },
+    {
+      title: 'General Application',
+      url: 'https://boards.greenhouse.io/acme/jobs/4012400006',
+      description: '',
+      location: '',
+      posted_date: '2026-01-05T08:00:00.000Z',
+    },
+  ]);
+});
+
+Deno.test('getGreenhouseBoardToken reads hosted, embedded and API board URLs', () => {
+  assertEquals(getGreenhouseBoardToken('https://boards.greenhouse.io/acme'), 'acme');
+  assertEquals(getGreenhouseBoardToken('https://job-boards.greenhouse.io/acme/jobs/4012345006'), 'acme');
+  assertEquals(getGreenhouseBoardToken('https://boards.greenhouse.io/embed/job_board?for=acme'), 'acme');
+  assertEquals(getGreenhouseBoardToken('https://boards-api.greenhouse.io/v1/boards/acme/jobs'), 'acme');
+  assertEquals(getGreenhouseBoardToken('https://acme.com/careers'), null);
+});
@@ -0,0 +1,17 @@
+// Shared by the scraper tests: recorded responses live in ./fixtures
+
+export const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+export const readJsonFixture = async (name: string) => JSON.parse(await readFixture(name));
+
+// Stands in for a paginated API: answers each (offset, limit) request with the
+// recorded page at that offset, or `empty` past the last one, and keeps the
+// offsets it was asked for
+export function servePages<T>(pages: T[], empty: T) {
+  const offsets: number[] = [];
+  const fetchPage = (offset: number, limit: number) => {
+    offsets.push(offset);
+    return Promise.resolve(pages[Math.floor(offset / limit)] ?? empty);
+  };
+  return { fetchPage, offsets };
+}
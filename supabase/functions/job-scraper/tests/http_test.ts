@@ -0,0 +1,28 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { checkPublicUrl, isPublicAddress } from '../http.ts';
+
+Deno.test('isPublicAddress rejects loopback, private, link-local and reserved addresses', () => {
+  for (const address of [
+    '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+    '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+    '::', '::1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1',
+  ]) {
+    assert(!isPublicAddress(address), address);
+  }
+});
+
+Deno.test('isPublicAddress accepts public addresses next to the private ranges', () => {
+  for (const address of ['8.8.8.8', '100.128.0.1', '172.32.0.1', '192.169.0.1', '2606:4700::6810:84e5', 'fe00::1']) {
+    assert(isPublicAddress(address), address);
+  }
+});
+
+Deno.test('checkPublicUrl rejects other schemes and private IP literals without a lookup', async () => {
+  assertEquals(await checkPublicUrl('file:///etc/passwd'), 'Only http and https URLs can be scraped');
+  assertEquals(await checkPublicUrl('not a url'), 'not a url is not a valid URL');
+  assertEquals(await checkPublicUrl('http://169.254.169.254/latest/meta-data/'), '169.254.169.254 is not a public address');
+  // URL parsing normalizes other spellings of an address first
+  assertEquals(await checkPublicUrl('http://0x7f.1/'), '127.0.0.1 is not a public address');
+  assertEquals(await checkPublicUrl('http://[::ffff:127.0.0.1]:8080/'), '::ffff:7f00:1 is not a public address');
+  assertEquals(await checkPublicUrl('https://93.184.215.14/careers'), null);
+});
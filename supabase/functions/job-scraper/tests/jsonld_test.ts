@@ -0,0 +1,70 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { extractJsonLdJobs } from '../extractors/jsonld.ts';
+import { readFixture } from './helpers.ts';
+
+const pageUrl = 'https://globex.example/careers';
+
+Deno.test('extractJsonLdJobs reads postings from @graph, arrays and item lists', async () => {
+  const jobs = extractJsonLdJobs(await readFixture('jsonld-careers.html'), pageUrl);
+
+  assertEquals(jobs.map(job => job.title), [
+    'Senior Data Engineer',
+    'Customer Success Manager',
+    'Office Coordinator',
+    // From an ItemList in a comment-wrapped block; the untitled entry is skipped
+    'Security Analyst',
+  ]);
+});
+
+Deno.test('extractJsonLdJobs maps every JobPosting field', async () => {
+  const [engineer, manager] = extractJsonLdJobs(await readFixture('jsonld-careers.html'), pageUrl);
+
+  assertEquals(engineer, {
+    title: 'Senior Data Engineer',
+    url: 'https://globex.example/careers/senior-data-engineer',
+    description: 'Build our streaming pipelines.\n• Kafka\n• Flink',
+    location: 'Springfield, OR, US; Portland, OR, US',
+    posted_date: '2026-10-12T00:00:00.000Z',
+    hiring_organization: 'Globex Corporation',
+    employment_type: 'Full-time',
+    valid_through: '2026-12-31T23:59:59.000Z',
+    salary_min: 150000,
+    salary_max: 185000,
+    salary_currency: 'USD',
+    salary_unit: 'YEAR',
+  });
+
+  // Typed as an array, linked through sameAs, with a bare salary and an
+  // organization given by name only
+  assertEquals(manager, {
+    title: 'Customer Success Manager',
+    url: 'https://jobs.globex.example/postings/7731?utm_source=site',
+    description: '',
+    location: 'Remote',
+    posted_date: '2026-10-15T09:30:00.000Z',
+    hiring_organization: 'Globex Corporation',
+    employment_type: 'Part-time, Contract',
+    valid_through: undefined,
+    salary_min: 42,
+    salary_max: 42,
+  });
+});
+
+Deno.test('extractJsonLdJobs only accepts http(s) posting URLs', async () => {
+  const jobs = extractJsonLdJobs(await readFixture('jsonld-careers.html'), pageUrl);
+  const coordinator = jobs.find(job => job.title === 'Office Coordinator');
+  const analyst = jobs.find(job => job.title === 'Security Analyst');
+
+  // javascript: and data: links fall back to the page the posting was on
+  assertEquals(coordinator?.url, pageUrl);
+  assertEquals(analyst?.url, pageUrl);
+});
+
+Deno.test('extractJsonLdJobs dates postings without a valid datePosted now', async () => {
+  const before = Date.now();
+  const coordinator = extractJsonLdJobs(await readFixture('jsonld-careers.html'), pageUrl)
+    .find(job => job.title === 'Office Coordinator');
+
+  assertEquals(coordinator?.location, '742 Evergreen Terrace, Springfield');
+  assert(coordinator && new Date(coordinator.posted_date).getTime() >= before);
+});
@@ -0,0 +1,36 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { getLeverSite, parseLeverPostings } from '../extractors/lever.ts';
+import { readJsonFixture } from './helpers.ts';
+
+Deno.test('parseLeverPostings maps a recorded postings API response', async () => {
+  const jobs = parseLeverPostings(await readJsonFixture('lever-postings.json'));
+
+  assertEquals(jobs, [
+    {
+      title: 'Site Reliability Engineer',
+      url: 'https://jobs.lever.co/acme/5b1f0c2e-8d4a-4f3e-9a7b-1c2d3e4f5a6b',
+      description: 'We run the infrastructure behind every Acme checkout.\n\nBenefits\nHealth, dental and vision cover from day one.',
+      location: 'London, UK',
+      posted_date: '2025-10-08T10:00:00.000Z',
+      team: 'Platform',
+      department: 'Engineering',
+      commitment: 'Full-time',
+    },
+    {
+      title: 'Data Scientist (Contract)',
+      url: 'https://jobs.lever.co/acme/9c8b7a6d-5e4f-4a3b-2c1d-0e9f8a7b6c5d',
+      description: 'Help us model merchant risk.',
+      location: 'Remote',
+      posted_date: '2025-10-14T10:00:00.000Z',
+      team: 'Data',
+      department: undefined,
+      commitment: 'Contract',
+    },
+  ]);
+});
+
+Deno.test('getLeverSite picks the regional postings API', () => {
+  assertEquals(getLeverSite('https://jobs.lever.co/acme'), { site: 'acme', apiBase: 'https://api.lever.co/v0/postings' });
+  assertEquals(getLeverSite('https://jobs.eu.lever.co/acme/'), { site: 'acme', apiBase: 'https://api.eu.lever.co/v0/postings' });
+  assertEquals(getLeverSite('https://jobs.lever.co/'), null);
+});
@@ -0,0 +1,42 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { findNextPageUrl } from '../extractors/pagination.ts';
+import { readFixture } from './helpers.ts';
+
+const nextPage = async (name: string, pageUrl: string) =>
+  findNextPageUrl(await readFixture(`pagination/${name}.html`), pageUrl);
+
+Deno.test('findNextPageUrl follows rel="next" ahead of the pager', async () => {
+  assertEquals(await nextPage('rel-next', 'https://initech.example/jobs?page=2'), 'https://initech.example/jobs?page=3');
+});
+
+Deno.test('findNextPageUrl follows a load more control\'s data-next-url', async () => {
+  assertEquals(
+    await nextPage('load-more', 'https://hooli.example/careers'),
+    'https://hooli.example/careers?cursor=eyJpZCI6NDJ9',
+  );
+});
+
+Deno.test('findNextPageUrl follows the link numbered one past the current page', async () => {
+  assertEquals(
+    await nextPage('numbered', 'https://vandelay.example/en/careers/page/2'),
+    'https://vandelay.example/en/careers/page/3',
+  );
+});
+
+Deno.test('findNextPageUrl advances the page parameter on the same path', async () => {
+  assertEquals(
+    await nextPage('page-param', 'https://dundermifflin.example/positions?dept=sales&page=2'),
+    'https://dundermifflin.example/positions?dept=sales&page=3',
+  );
+});
+
+Deno.test('findNextPageUrl takes the nearest offset ahead of the current one', async () => {
+  assertEquals(
+    await nextPage('offset', 'https://umbrella.example/jobs/search?q=&startrow=25'),
+    'https://umbrella.example/jobs/search?q=&startrow=50',
+  );
+});
+
+Deno.test('findNextPageUrl returns null on the last page', async () => {
+  assertEquals(await nextPage('last-page', 'https://initech.example/jobs?page=3'), null);
+});
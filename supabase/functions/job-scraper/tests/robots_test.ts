@@ -0,0 +1,55 @@
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobotsTxt, selectPolicy } from '../robots.ts';
+import { readFixture } from './helpers.ts';
+
+const policyFor = async (productToken: string) => selectPolicy(parseRobotsTxt(await readFixture('robots.txt')), productToken);
+
+Deno.test('parseRobotsTxt groups consecutive user-agent lines', async () => {
+  const groups = parseRobotsTxt(await readFixture('robots.txt'));
+
+  assertEquals(groups.map(group => group.agents), [['*'], ['jobhunter', 'otherbot'], ['jobhunteralertbot-beta'], ['jobhunter']]);
+  assertEquals(groups[3].rules, [{ allow: false, pattern: '/admin' }]);
+});
+
+Deno.test('selectPolicy merges the groups of the most specific agent matching the product token', async () => {
+  const policy = await policyFor('JobHunterAlertBot');
+
+  // "jobhunter" prefixes our token; "jobhunteralertbot-beta" is longer but does not
+  assertEquals(policy.rules.map(rule => rule.pattern), ['/jobs/internal/', '/jobs/', '/jobs/', '/apply*?ref=', '/admin']);
+  assertEquals(policy.crawlDelay, 10);
+});
+
+Deno.test('selectPolicy falls back to the * group, or allows everything without one', async () => {
+  const policy = await policyFor('SomeOtherCrawler');
+
+  assertEquals(policy.rules.map(rule => rule.pattern), ['/search', '/*.pdf$', '/search/jobs']);
+  assertEquals(policy.crawlDelay, 2);
+  assertEquals(selectPolicy(parseRobotsTxt('User-agent: OtherBot\nDisallow: /'), 'JobHunterAlertBot'), ALLOW_ALL);
+});
+
+Deno.test('isPathAllowed applies the longest matching rule, with Allow winning ties', async () => {
+  const policy = await policyFor('JobHunterAlertBot');
+
+  assert(isPathAllowed(policy, '/jobs/123'));
+  assert(!isPathAllowed(policy, '/jobs/internal/7'));
+  assert(!isPathAllowed(policy, '/admin/users'));
+  assert(isPathAllowed(policy, '/about'));
+});
+
+Deno.test('isPathAllowed matches * wildcards and $ anchors', async () => {
+  const fallback = await policyFor('SomeOtherCrawler');
+
+  assert(!isPathAllowed(fallback, '/search?q=engineer'));
+  assert(isPathAllowed(fallback, '/search/jobs?q=engineer'));
+  assert(!isPathAllowed(fallback, '/files/benefits.pdf'));
+  assert(isPathAllowed(fallback, '/files/benefits.pdf?download=1'));
+
+  const policy = await policyFor('JobHunterAlertBot');
+  assert(!isPathAllowed(policy, '/apply/42?ref=newsletter'));
+  assert(isPathAllowed(policy, '/apply/42'));
+});
+
+Deno.test('isPathAllowed always allows /robots.txt itself', () => {
+  assert(isPathAllowed(DISALLOW_ALL, '/robots.txt'));
+  assert(!isPathAllowed(DISALLOW_ALL, '/'));
+});
@@ -0,0 +1,87 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { nextCronRun, nextRunAt, parseCron, validateCron } from '../../_shared/schedule.ts';
+
+const runs = (expression: string, from: string, count: number) => {
+  const times: string[] = [];
+  let after = new Date(from);
+  for (let i = 0; i < count; i++) {
+    const next = nextCronRun(expression, after);
+    if (!next) break;
+    times.push(next.toISOString());
+    after = next;
+  }
+  return times;
+};
+
+Deno.test('parseCron expands lists, ranges and steps', () => {
+  const fields = parseCron('*/15 9-11 1,15 */6 1-5');
+
+  assertEquals([...fields.minutes], [0, 15, 30, 45]);
+  assertEquals([...fields.hours], [9, 10, 11]);
+  assertEquals([...fields.daysOfMonth], [1, 15]);
+  assertEquals([...fields.months], [1, 7]);
+  assertEquals([...fields.daysOfWeek], [1, 2, 3, 4, 5]);
+  assertEquals([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+});
+
+Deno.test('parseCron reads 7 as Sunday', () => {
+  assertEquals([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+});
+
+Deno.test('parseCron only counts day fields without "*" as restricted', () => {
+  const restriction = (expression: string) => {
+    const { dayOfMonthRestricted, dayOfWeekRestricted } = parseCron(expression);
+    return [dayOfMonthRestricted, dayOfWeekRestricted];
+  };
+
+  assertEquals(restriction('0 9 * * *'), [false, false]);
+  assertEquals(restriction('0 9 */2 * 1'), [false, true]);
+  assertEquals(restriction('0 9 1-15 * */2'), [true, false]);
+  assertEquals(restriction('0 9 1,15 * 1-5'), [true, true]);
+});
+
+Deno.test('validateCron explains what is wrong', () => {
+  assertEquals(validateCron('0 9 * * 1-5'), null);
+  assertEquals(validateCron('0 9 * *'), 'A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  assertEquals(validateCron('60 * * * *'), 'minute "60" must be between 0 and 59');
+  assertEquals(validateCron('0 9 * * mon'), 'Invalid day of week "mon"');
+  assertThrows(() => parseCron('*/0 * * * *'));
+});
+
+Deno.test('nextCronRun matches either day field when both are restricted', () => {
+  // The 1st and 15th, and every Monday
+  assertEquals(runs('0 9 1,15 * 1', '2026-10-01T12:00:00Z', 4), [
+    '2026-10-05T09:00:00.000Z',
+    '2026-10-12T09:00:00.000Z',
+    '2026-10-15T09:00:00.000Z',
+    '2026-10-19T09:00:00.000Z',
+  ]);
+});
+
+Deno.test('nextCronRun matches both day fields when one is a "*" step', () => {
+  // Mondays that fall on an odd day of the month
+  assertEquals(runs('0 9 */2 * 1', '2026-10-01T00:00:00Z', 3), [
+    '2026-10-05T09:00:00.000Z',
+    '2026-10-19T09:00:00.000Z',
+    '2026-11-09T09:00:00.000Z',
+  ]);
+});
+
+Deno.test('nextCronRun finds the next matching minute', () => {
+  assertEquals(runs('30 */6 * * *', '2026-10-19T05:30:00Z', 3), [
+    '2026-10-19T06:30:00.000Z',
+    '2026-10-19T12:30:00.000Z',
+    '2026-10-19T18:30:00.000Z',
+  ]);
+  assertEquals(nextCronRun('0 0 29 2 *', new Date('2026-10-19T00:00:00Z'))?.toISOString(), '2028-02-29T00:00:00.000Z');
+  assertEquals(nextCronRun('0 0 30 2 *', new Date('2026-10-19T00:00:00Z')), null);
+});
+
+Deno.test('nextRunAt keeps interval schedules on their original slots', () => {
+  const now = new Date('2026-10-19T12:10:00Z');
+
+  assertEquals(nextRunAt('hourly', null, now)?.toISOString(), '2026-10-19T13:10:00.000Z');
+  assertEquals(nextRunAt('hourly', null, now, new Date('2026-10-19T09:00:00Z'))?.toISOString(), '2026-10-19T13:00:00.000Z');
+  assertEquals(nextRunAt('cron', '0 18 * * *', now)?.toISOString(), '2026-10-19T18:00:00.000Z');
+  assertEquals(nextRunAt('cron', null, now), null);
+});
@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { ScrapeError } from '../errors.ts';
+import { extractWithRecipe } from '../extractors/selectors.ts';
+
+const html = `
+  <ul class="openings">
+    <li><a href="/jobs/1"><h3>Backend Engineer</h3></a><span class="where">Berlin</span><time datetime="2026-10-01">1 Oct</time></li>
+    <li><a href="/jobs/2"><h3>Data Analyst</h3></a><span class="where">Remote</span></li>
+  </ul>`;
+
+Deno.test('extractWithRecipe reads each item with the recipe selectors', () => {
+  const jobs = extractWithRecipe(html, 'https://acme.com/careers', {
+    item: 'ul.openings > li',
+    title: 'h3',
+    location: '.where',
+    date: 'time',
+  });
+
+  assertEquals(jobs.map(({ title, url, location }) => ({ title, url, location })), [
+    { title: 'Backend Engineer', url: 'https://acme.com/jobs/1', location: 'Berlin' },
+    { title: 'Data Analyst', url: 'https://acme.com/jobs/2', location: 'Remote' },
+  ]);
+  assertEquals(jobs[0].posted_date, '2026-10-01T00:00:00.000Z');
+});
+
+Deno.test('extractWithRecipe reports every invalid selector as a parse error', () => {
+  const recipes = [
+    { item: 'li[' },
+    { item: 'li', title: 'h3:nope(' },
+    { item: 'li', url: 'a[href' },
+    { item: 'li', location: 'span[class' },
+    // Checked even when no item matches
+    { item: 'tr', date: 'time[' },
+  ];
+
+  for (const recipe of recipes) {
+    const error = assertThrows(() => extractWithRecipe(html, 'https://acme.com/careers', recipe), ScrapeError);
+    assertEquals(error.category, 'parse');
+  }
+});
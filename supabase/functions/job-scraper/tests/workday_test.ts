@@ -0,0 +1,88 @@
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { getWorkdaySite, parseWorkdayPostedOn, parseWorkdayPostings, readWorkdayPostings } from '../extractors/workday.ts';
+import { readJsonFixture, servePages } from './helpers.ts';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+Deno.test('parseWorkdayPostings maps a recorded search response', async () => {
+  const { jobPostings } = await readJsonFixture('workday-search.json');
+  const jobs = parseWorkdayPostings(jobPostings, 'https://acme.wd5.myworkdayjobs.com/External', now);
+
+  assertEquals(jobs, [
+    {
+      title: 'Staff Software Engineer',
+      url: 'https://acme.wd5.myworkdayjobs.com/External/job/Austin-TX/Staff-Software-Engineer_R-10234',
+      description: '',
+      location: 'Austin, TX',
+      posted_date: '2026-10-19T12:00:00.000Z',
+    },
+    {
+      title: 'Financial Analyst',
+      url: 'https://acme.wd5.myworkdayjobs.com/External/job/New-York-NY/Financial-Analyst_R-10188',
+      description: '',
+      location: '2 Locations',
+      posted_date: '2026-10-18T12:00:00.000Z',
+    },
+    {
+      title: 'Warehouse Associate',
+      url: 'https://acme.wd5.myworkdayjobs.com/External/job/Reno-NV/Warehouse-Associate_R-09911',
+      description: '',
+      location: 'Reno, NV',
+      posted_date: '2026-09-19T12:00:00.000Z',
+    },
+  ]);
+});
+
+Deno.test('readWorkdayPostings stops at the total the first page reports', async () => {
+  const { fetchPage, offsets } = servePages([await readJsonFixture('workday-search.json')], { jobPostings: [] });
+  const { postings, truncated } = await readWorkdayPostings(fetchPage);
+
+  assertEquals(postings.length, 3);
+  assertEquals(offsets, [0]);
+  assertEquals(truncated, false);
+});
+
+Deno.test('readWorkdayPostings keeps paging when the response has no total', async () => {
+  const pages = [
+    await readJsonFixture('workday-search-no-total-1.json'),
+    await readJsonFixture('workday-search-no-total-2.json'),
+  ];
+  const { fetchPage, offsets } = servePages(pages, { jobPostings: [] });
+  const { postings, truncated } = await readWorkdayPostings(fetchPage);
+
+  assertEquals(postings.length, 25);
+  assertEquals(postings[24].title, 'Support Specialist V');
+  assertEquals(offsets, [0, 20]);
+  assertEquals(truncated, false);
+});
+
+Deno.test('readWorkdayPostings treats a total of 0 as unknown', async () => {
+  const pages = [
+    { ...await readJsonFixture('workday-search-no-total-1.json'), total: 0 },
+    await readJsonFixture('workday-search-no-total-2.json'),
+  ];
+  const { fetchPage, offsets } = servePages(pages, { jobPostings: [] });
+
+  assertEquals((await readWorkdayPostings(fetchPage)).postings.length, 25);
+  assertEquals(offsets, [0, 20]);
+});
+
+Deno.test('parseWorkdayPostedOn turns relative ages into dates', () => {
+  assertEquals(parseWorkdayPostedOn('Posted Today', now), '2026-10-19T12:00:00.000Z');
+  assertEquals(parseWorkdayPostedOn('Posted Yesterday', now), '2026-10-18T12:00:00.000Z');
+  assertEquals(parseWorkdayPostedOn('Posted 3 Days Ago', now), '2026-10-16T12:00:00.000Z');
+  assertEquals(parseWorkdayPostedOn('Posted 30+ Days Ago', now), '2026-09-19T12:00:00.000Z');
+  assertEquals(parseWorkdayPostedOn(undefined, now), '2026-10-19T12:00:00.000Z');
+});
+
+Deno.test('getWorkdaySite resolves the search endpoint for both URL styles', () => {
+  assertEquals(getWorkdaySite('https://acme.wd5.myworkdayjobs.com/en-US/External'), {
+    siteUrl: 'https://acme.wd5.myworkdayjobs.com/en-US/External',
+    searchUrl: 'https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/External/jobs',
+  });
+  assertEquals(getWorkdaySite('https://wd3.myworkdaysite.com/recruiting/acme/Careers'), {
+    siteUrl: 'https://wd3.myworkdaysite.com/recruiting/acme/Careers',
+    searchUrl: 'https://wd3.myworkdaysite.com/wday/cxs/acme/Careers/jobs',
+  });
+  assertEquals(getWorkdaySite('https://acme.com/careers'), null);
+});
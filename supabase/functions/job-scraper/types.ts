@@ -0,0 +1,109 @@
+import type { ScrapeErrorCategory } from '../_shared/errors.ts';
+import type { SourceType } from '../_shared/sources.ts';
+
+export interface Job {
+  title: string;
+  url?: string;
+  // Feed items' GUID or id, which identifies the job in place of its URL and title
+  guid?: string;
+  description?: string;
+  location?: string;
+  posted_date?: string;
+  team?: string;
+  department?: string;
+  commitment?: string;
+  hiring_organization?: string;
+  employment_type?: string;
+  valid_through?: string;
+  salary_min?: number;
+  salary_max?: number;
+  salary_currency?: string;
+  salary_unit?: string;
+}
+
+export type ExtractorName = 'recipe' | 'greenhouse' | 'lever' | 'workday' | 'feed' | 'json-ld' | 'dom';
+
+// HTTP cache validators from the response the listing was read from
+export interface HttpValidators {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+}
+
+export type { ScrapeErrorCategory, SourceType };
+
+export interface ScrapedData {
+  jobs: Job[];
+  success: boolean;
+  error?: string;
+  error_category?: ScrapeErrorCategory;
+  extractor?: ExtractorName;
+  warnings?: string[];
+  // The listing source answered 304 Not Modified, so `jobs` is empty
+  not_modified?: boolean;
+  // `jobs` holds only part of the listing, so absent postings may still be open
+  truncated?: boolean;
+  validators?: HttpValidators;
+}
+
+// How much of a paginated listing to read; null uses the scraper's defaults
+export interface ListingLimits {
+  max_pages: number | null;
+  max_jobs: number | null;
+}
+
+// Everything about a company that decides how its listing is read
+export interface ListingSettings extends ListingLimits {
+  source_type: SourceType;
+  extraction_recipe: ExtractionRecipe | null;
+}
+
+// Per-company CSS selectors; everything except `item` is relative to each item
+export interface ExtractionRecipe {
+  item: string;
+  title?: string;
+  url?: string;
+  location?: string;
+  date?: string;
+}
+
+export type CompanyScrapeStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface CompanyScrapeResult {
+  company_id: string;
+  company: string;
+  user_id: string;
+  status: CompanyScrapeStatus;
+  error?: string;
+  error_category?: ScrapeErrorCategory;
+  extractor?: ExtractorName;
+  // Jobs extracted from the page, whether or not they were already known
+  jobs_found: number;
+  new_jobs: number;
+  notifications_sent: number;
+  // The listing was not modified or hashed the same as last time, so it was not diffed
+  unchanged?: boolean;
+  // Postings closed because they left the listing, or back on it after being closed
+  postings_closed?: number;
+  postings_reopened?: number;
+}
+
+export interface TrackedCompany {
+  id: string;
+  company_name: string;
+  career_page_url: string;
+  source_type: SourceType;
+  extraction_recipe: ExtractionRecipe | null;
+  max_pages: number | null;
+  max_jobs: number | null;
+  user_id: string;
+  consecutive_failures: number;
+  paused_at: string | null;
+  listing_url: string | null;
+  etag: string | null;
+  last_modified: string | null;
+  content_hash: string | null;
+  // Same for every company whose career page URL and listing settings read the same listing
+  listing_key: string | null;
+  profiles: { email: string; notify_on_posting_closed: boolean } | null;
+}
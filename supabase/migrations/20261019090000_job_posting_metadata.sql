@@ -0,0 +1,11 @@
+/*
+  # Job posting metadata
+
+  1. Changes
+    - Add `team`, `department` and `commitment` columns to `jobs` so ATS
+      extractors (Lever) can store how a posting is categorised
+*/
+
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS team TEXT;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS department TEXT;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS commitment TEXT;
@@ -0,0 +1,16 @@
+/*
+  # Structured job posting fields
+
+  1. Changes
+    - Add columns to `jobs` for the schema.org JobPosting properties the
+      JSON-LD extractor maps: hiring organization, employment type,
+      validity end date and base salary range
+*/
+
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS hiring_organization TEXT;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS employment_type TEXT;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS valid_through TIMESTAMPTZ;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS salary_min NUMERIC;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS salary_max NUMERIC;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS salary_currency TEXT;
+ALTER TABLE public.jobs ADD COLUMN IF NOT EXISTS salary_unit TEXT;
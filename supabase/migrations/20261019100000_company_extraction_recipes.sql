@@ -0,0 +1,10 @@
+/*
+  # Per-company extraction recipes
+
+  1. Changes
+    - Add `extraction_recipe` to `tracked_companies`. When set, the scraper
+      uses its CSS selectors instead of the generic extraction heuristics:
+      { "item": "...", "title": "...", "url": "...", "location": "...", "date": "..." }
+*/
+
+ALTER TABLE public.tracked_companies ADD COLUMN IF NOT EXISTS extraction_recipe JSONB;
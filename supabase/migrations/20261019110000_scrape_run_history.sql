@@ -0,0 +1,65 @@
+/*
+  # Scrape run history
+
+  1. New Tables
+    - `scrape_runs`: one row per job-scraper invocation with its trigger
+      source, timing, outcome and totals
+    - `scrape_run_companies`: the outcome for each company processed in a run
+      (succeeded, failed or skipped), jobs found and notifications created
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can see their own per-company results, and runs they triggered or
+      that processed one of their companies
+*/
+
+CREATE TABLE IF NOT EXISTS public.scrape_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  trigger_source TEXT NOT NULL CHECK (trigger_source IN ('scheduled', 'manual')),
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  companies_processed INTEGER NOT NULL DEFAULT 0,
+  new_jobs_found INTEGER NOT NULL DEFAULT 0,
+  notifications_sent INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  PRIMARY KEY (id)
+);
+
+CREATE TABLE IF NOT EXISTS public.scrape_run_companies (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.scrape_runs(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES public.tracked_companies(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed', 'skipped')),
+  error TEXT,
+  extractor TEXT,
+  jobs_found INTEGER NOT NULL DEFAULT 0,
+  new_jobs INTEGER NOT NULL DEFAULT 0,
+  notifications_created INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS scrape_runs_started_at_idx ON public.scrape_runs (started_at DESC);
+CREATE INDEX IF NOT EXISTS scrape_run_companies_run_id_idx ON public.scrape_run_companies (run_id);
+CREATE INDEX IF NOT EXISTS scrape_run_companies_user_id_idx ON public.scrape_run_companies (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.scrape_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scrape_run_companies ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for scrape history
+CREATE POLICY "Users can view their own scrape results" ON public.scrape_run_companies
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view runs that touched their companies" ON public.scrape_runs
+  FOR SELECT USING (
+    auth.uid() = triggered_by OR
+    id IN (
+      SELECT run_id FROM public.scrape_run_companies
+      WHERE user_id = auth.uid()
+    )
+  );
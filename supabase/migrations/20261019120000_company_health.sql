@@ -0,0 +1,38 @@
+/*
+  # Company scrape health
+
+  1. Changes to `tracked_companies`
+    - `last_scraped_at`, `last_success_at`: when the career page was last
+      fetched, and last fetched without an error
+    - `last_error`: the most recent failure, cleared on the next success
+    - `consecutive_failures`: the current failure streak
+    - `paused_at`, `paused_reason`: set when the streak reaches the scraper's
+      limit; paused companies are left out of scheduled runs until resumed
+
+  2. Changes to `notifications`
+    - `type`: `job_match` (the existing keyword notifications) or
+      `company_paused`
+    - `company_id`, `message`: the company and explanation for notifications
+      that are not about a specific job
+    - `job_id` and `keyword_matched` are only required for job matches
+*/
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS last_scraped_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS paused_reason TEXT;
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'job_match' CHECK (type IN ('job_match', 'company_paused')),
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.tracked_companies(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS message TEXT;
+
+ALTER TABLE public.notifications
+  ALTER COLUMN job_id DROP NOT NULL,
+  ALTER COLUMN keyword_matched DROP NOT NULL;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_job_match_check CHECK (type <> 'job_match' OR (job_id IS NOT NULL AND keyword_matched IS NOT NULL));
@@ -0,0 +1,27 @@
+/*
+  # Time-budgeted scrape runs
+
+  1. Changes to `scrape_runs`
+    - `status` may now be `partial`: the run stopped starting companies when
+      its time budget ran out
+    - `companies_completed`, `companies_failed`, `companies_deferred`: how the
+      companies in the run ended up; deferred companies were never started
+    - `resume_cursor`: for partial runs, the id of the last company started;
+      the next run continues with the companies after it
+    - `resumed_at`: when a later run took over the cursor
+*/
+
+ALTER TABLE public.scrape_runs
+  ADD COLUMN IF NOT EXISTS companies_completed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS companies_failed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS companies_deferred INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS resume_cursor UUID,
+  ADD COLUMN IF NOT EXISTS resumed_at TIMESTAMPTZ;
+
+ALTER TABLE public.scrape_runs DROP CONSTRAINT IF EXISTS scrape_runs_status_check;
+ALTER TABLE public.scrape_runs
+  ADD CONSTRAINT scrape_runs_status_check CHECK (status IN ('running', 'completed', 'partial', 'failed'));
+
+CREATE INDEX IF NOT EXISTS scrape_runs_resumable_idx
+  ON public.scrape_runs (trigger_source, triggered_by, started_at DESC)
+  WHERE status = 'partial' AND resumed_at IS NULL;
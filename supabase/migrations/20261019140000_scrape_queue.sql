@@ -0,0 +1,236 @@
+/*
+  # Scrape queue
+
+  1. New Tables
+    - `scrape_queue`: one task per company to scrape, tagged with the run that
+      enqueued it. Tasks move from `pending` to `running` when a worker claims
+      them and hold a lease while they run. A failed task goes back to
+      `pending` with an exponential backoff until it runs out of attempts,
+      then lands in `dead` (the dead-letter state).
+
+  2. Functions (service role only)
+    - `enqueue_scrape_run`: creates a scheduled run and enqueues every active
+      company, or only the given companies. A company that already has an open
+      task is not enqueued twice.
+    - `claim_scrape_tasks`: locks up to `p_limit` due tasks with
+      `FOR UPDATE SKIP LOCKED` so concurrent workers never claim the same task,
+      and reclaims tasks whose lease expired
+    - `complete_scrape_task`, `fail_scrape_task`: settle a claimed task; both
+      are no-ops for a worker that no longer holds the lease
+    - `finalize_scrape_runs`: completes runs that have no open tasks left and
+      fills in their totals
+
+  3. Security
+    - Enable RLS on `scrape_queue`; users can see tasks for their own companies
+*/
+
+CREATE TABLE IF NOT EXISTS public.scrape_queue (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES public.scrape_runs(id) ON DELETE SET NULL,
+  company_id UUID NOT NULL REFERENCES public.tracked_companies(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  available_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS scrape_queue_open_company_idx
+  ON public.scrape_queue (company_id)
+  WHERE status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS scrape_queue_pending_idx
+  ON public.scrape_queue (available_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS scrape_queue_lease_idx
+  ON public.scrape_queue (lease_expires_at)
+  WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS scrape_queue_run_id_idx ON public.scrape_queue (run_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.scrape_queue ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for scrape_queue
+CREATE POLICY "Users can view queue tasks for their companies"
+  ON public.scrape_queue
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tracked_companies
+      WHERE tracked_companies.id = scrape_queue.company_id
+        AND tracked_companies.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.enqueue_scrape_run(
+  p_company_ids UUID[] DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS TABLE (run_id UUID, tasks_enqueued INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_run_id UUID;
+  v_count INTEGER;
+BEGIN
+  INSERT INTO scrape_runs (trigger_source)
+  VALUES ('scheduled')
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO scrape_queue (run_id, company_id, max_attempts)
+  SELECT v_run_id, tracked_companies.id, p_max_attempts
+  FROM tracked_companies
+  WHERE CASE
+    WHEN p_company_ids IS NULL THEN tracked_companies.paused_at IS NULL
+    ELSE tracked_companies.id = ANY (p_company_ids)
+  END
+  ON CONFLICT (company_id) WHERE status IN ('pending', 'running') DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Nothing to do: close the run straight away so it is not left running
+  IF v_count = 0 THEN
+    UPDATE scrape_runs
+    SET status = 'completed', finished_at = now()
+    WHERE id = v_run_id;
+  END IF;
+
+  RETURN QUERY SELECT v_run_id, v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_scrape_tasks(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF public.scrape_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- A worker that died during the final attempt never reports back, so its
+  -- task is dead-lettered here instead of being retried again
+  UPDATE scrape_queue
+  SET status = 'dead',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = COALESCE(last_error, 'Worker lease expired on the final attempt'),
+      finished_at = now(),
+      updated_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE scrape_queue
+  SET status = 'running',
+      attempts = scrape_queue.attempts + 1,
+      locked_by = p_worker,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE scrape_queue.id IN (
+    SELECT candidate.id
+    FROM scrape_queue AS candidate
+    WHERE (candidate.status = 'pending' AND candidate.available_at <= now())
+       OR (candidate.status = 'running' AND candidate.lease_expires_at < now())
+    ORDER BY candidate.available_at, candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING scrape_queue.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_scrape_task(p_task_id UUID, p_worker TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH settled AS (
+    UPDATE scrape_queue
+    SET status = 'succeeded',
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        last_error = NULL,
+        finished_at = now(),
+        updated_at = now()
+    WHERE id = p_task_id
+      AND status = 'running'
+      AND locked_by = p_worker
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM settled);
+$$;
+
+-- Returns the task's new status (`pending` for a retry, `dead` once attempts
+-- are used up), or NULL when the worker no longer holds the lease
+CREATE OR REPLACE FUNCTION public.fail_scrape_task(
+  p_task_id UUID,
+  p_worker TEXT,
+  p_error TEXT,
+  p_retry_base_seconds INTEGER DEFAULT 60
+)
+RETURNS TEXT
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE scrape_queue
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+      available_at = CASE
+        WHEN attempts >= max_attempts THEN available_at
+        ELSE now() + make_interval(secs => p_retry_base_seconds * power(2, attempts - 1))
+      END,
+      finished_at = CASE WHEN attempts >= max_attempts THEN now() END,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = p_error,
+      updated_at = now()
+  WHERE id = p_task_id
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING status;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_scrape_runs()
+RETURNS SETOF UUID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE scrape_runs
+  SET status = 'completed',
+      finished_at = now(),
+      companies_processed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id),
+      companies_completed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id AND scrape_queue.status = 'succeeded'),
+      companies_failed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id AND scrape_queue.status = 'dead'),
+      new_jobs_found = COALESCE((SELECT sum(new_jobs) FROM scrape_run_companies WHERE scrape_run_companies.run_id = scrape_runs.id), 0),
+      notifications_sent = COALESCE((SELECT sum(notifications_created) FROM scrape_run_companies WHERE scrape_run_companies.run_id = scrape_runs.id), 0)
+  WHERE scrape_runs.status = 'running'
+    AND EXISTS (SELECT 1 FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM scrape_queue
+      WHERE scrape_queue.run_id = scrape_runs.id
+        AND scrape_queue.status IN ('pending', 'running')
+    )
+  RETURNING scrape_runs.id;
+$$;
+
+-- Only the edge functions (service role) drive the queue
+REVOKE EXECUTE ON FUNCTION public.enqueue_scrape_run(UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_scrape_tasks(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_scrape_task(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_scrape_task(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finalize_scrape_runs() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_scrape_run(UUID[], INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_scrape_tasks(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_scrape_task(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_scrape_task(UUID, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finalize_scrape_runs() TO service_role;
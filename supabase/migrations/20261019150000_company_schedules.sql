@@ -0,0 +1,22 @@
+/*
+  # Per-company scrape schedules
+
+  1. Changes to `tracked_companies`
+    - `schedule`: `hourly`, `every_6_hours`, `daily` (the default) or `cron`
+    - `cron_expression`: a five-field cron expression, evaluated in UTC,
+      required when `schedule` is `cron`
+    - `next_run_at`: when job-scheduler should next enqueue the company;
+      NULL means it is due on the next scheduler tick
+*/
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS schedule TEXT NOT NULL DEFAULT 'daily' CHECK (schedule IN ('hourly', 'every_6_hours', 'daily', 'cron')),
+  ADD COLUMN IF NOT EXISTS cron_expression TEXT,
+  ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+
+ALTER TABLE public.tracked_companies
+  ADD CONSTRAINT tracked_companies_cron_expression_check CHECK ((schedule = 'cron') = (cron_expression IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS tracked_companies_next_run_at_idx
+  ON public.tracked_companies (next_run_at)
+  WHERE paused_at IS NULL;
@@ -0,0 +1,225 @@
+/*
+  # Scrape run lock
+
+  Scheduled (queue) runs and manual runs must never scrape at the same time:
+  both insert jobs and notifications, and their select-then-insert dedupe
+  races. A single lease row in `scrape_locks` serialises them.
+
+  1. New Tables
+    - `scrape_locks`: the current holder of the scraper lock, its kind
+      (`scheduled` or `manual`) and when its lease expires. A holder that
+      crashes stops renewing and its lease goes stale, after which anyone may
+      take the lock over.
+
+  2. Changes to `scrape_runs`
+    - `companies_total`: how many companies the run set out to scrape, so
+      callers turned away by the lock can be told how far along it is
+
+  3. Functions (service role only)
+    - `acquire_scrape_lock`: takes or renews the lock. Manual holders are
+      exclusive. Scheduled holders share it with each other, because queue
+      workers never scrape the same company twice at once.
+    - `release_scrape_lock`: releases a lock held by the given run
+    - `enqueue_scrape_run`: now takes the lock for the new run before queueing
+      anything, and reports the holder instead when a manual run has it
+    - `return_scrape_task`: hands a claimed task back to the queue without
+      using up an attempt, for workers that find the lock taken
+    - `finalize_scrape_runs`: also releases the scheduled lock once the queue
+      has no open tasks left
+
+  4. Security
+    - Enable RLS on `scrape_locks` with no policies; only the service role
+      reads or writes it
+*/
+
+CREATE TABLE IF NOT EXISTS public.scrape_locks (
+  name TEXT NOT NULL,
+  run_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('scheduled', 'manual')),
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.scrape_locks ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.scrape_runs
+  ADD COLUMN IF NOT EXISTS companies_total INTEGER;
+
+CREATE OR REPLACE FUNCTION public.acquire_scrape_lock(
+  p_kind TEXT,
+  p_run_id UUID,
+  p_ttl_seconds INTEGER DEFAULT 600
+)
+RETURNS TABLE (acquired BOOLEAN, holder_run_id UUID)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO scrape_locks (name, run_id, kind, expires_at)
+  VALUES ('job-scraper', p_run_id, p_kind, now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (name) DO UPDATE
+  SET run_id = CASE
+        -- A worker renewing the shared scheduled lock keeps the newest run as holder
+        WHEN scrape_locks.kind = 'scheduled' AND EXCLUDED.kind = 'scheduled' AND scrape_locks.expires_at >= now()
+          THEN scrape_locks.run_id
+        ELSE EXCLUDED.run_id
+      END,
+      kind = EXCLUDED.kind,
+      acquired_at = CASE WHEN scrape_locks.run_id = EXCLUDED.run_id THEN scrape_locks.acquired_at ELSE now() END,
+      expires_at = EXCLUDED.expires_at
+  WHERE scrape_locks.expires_at < now()
+     OR scrape_locks.run_id = EXCLUDED.run_id
+     OR (scrape_locks.kind = 'scheduled' AND EXCLUDED.kind = 'scheduled');
+
+  IF FOUND THEN
+    RETURN QUERY SELECT TRUE, p_run_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT FALSE, scrape_locks.run_id FROM scrape_locks WHERE scrape_locks.name = 'job-scraper';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_scrape_lock(p_run_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  DELETE FROM scrape_locks WHERE name = 'job-scraper' AND run_id = p_run_id;
+$$;
+
+DROP FUNCTION IF EXISTS public.enqueue_scrape_run(UUID[], INTEGER);
+
+CREATE OR REPLACE FUNCTION public.enqueue_scrape_run(
+  p_company_ids UUID[] DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 3,
+  p_lock_ttl_seconds INTEGER DEFAULT 600
+)
+RETURNS TABLE (run_id UUID, tasks_enqueued INTEGER, lock_acquired BOOLEAN)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_run_id UUID := gen_random_uuid();
+  v_count INTEGER;
+BEGIN
+  -- Take over the lock unless a manual run holds a live lease on it
+  INSERT INTO scrape_locks (name, run_id, kind, expires_at)
+  VALUES ('job-scraper', v_run_id, 'scheduled', now() + make_interval(secs => p_lock_ttl_seconds))
+  ON CONFLICT (name) DO UPDATE
+  SET run_id = EXCLUDED.run_id,
+      kind = EXCLUDED.kind,
+      acquired_at = now(),
+      expires_at = EXCLUDED.expires_at
+  WHERE scrape_locks.kind = 'scheduled' OR scrape_locks.expires_at < now();
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT scrape_locks.run_id, 0, FALSE FROM scrape_locks WHERE scrape_locks.name = 'job-scraper';
+    RETURN;
+  END IF;
+
+  INSERT INTO scrape_runs (id, trigger_source)
+  VALUES (v_run_id, 'scheduled');
+
+  INSERT INTO scrape_queue (run_id, company_id, max_attempts)
+  SELECT v_run_id, tracked_companies.id, p_max_attempts
+  FROM tracked_companies
+  WHERE CASE
+    WHEN p_company_ids IS NULL THEN tracked_companies.paused_at IS NULL
+    ELSE tracked_companies.id = ANY (p_company_ids)
+  END
+  ON CONFLICT (company_id) WHERE status IN ('pending', 'running') DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE scrape_runs
+  SET companies_total = v_count
+  WHERE id = v_run_id;
+
+  -- Nothing to do: close the run straight away so it is not left running,
+  -- and let go of the lock unless older tasks are still open
+  IF v_count = 0 THEN
+    UPDATE scrape_runs
+    SET status = 'completed', finished_at = now()
+    WHERE id = v_run_id;
+
+    DELETE FROM scrape_locks
+    WHERE name = 'job-scraper'
+      AND run_id = v_run_id
+      AND NOT EXISTS (SELECT 1 FROM scrape_queue WHERE status IN ('pending', 'running'));
+  END IF;
+
+  RETURN QUERY SELECT v_run_id, v_count, TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.return_scrape_task(
+  p_task_id UUID,
+  p_worker TEXT,
+  p_delay_seconds INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH returned AS (
+    UPDATE scrape_queue
+    SET status = 'pending',
+        attempts = attempts - 1,
+        available_at = now() + make_interval(secs => p_delay_seconds),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    WHERE id = p_task_id
+      AND status = 'running'
+      AND locked_by = p_worker
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM returned);
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_scrape_runs()
+RETURNS SETOF UUID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH finalized AS (
+    UPDATE scrape_runs
+    SET status = 'completed',
+        finished_at = now(),
+        companies_processed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id),
+        companies_completed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id AND scrape_queue.status = 'succeeded'),
+        companies_failed = (SELECT count(*) FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id AND scrape_queue.status = 'dead'),
+        new_jobs_found = COALESCE((SELECT sum(new_jobs) FROM scrape_run_companies WHERE scrape_run_companies.run_id = scrape_runs.id), 0),
+        notifications_sent = COALESCE((SELECT sum(notifications_created) FROM scrape_run_companies WHERE scrape_run_companies.run_id = scrape_runs.id), 0)
+    WHERE scrape_runs.status = 'running'
+      AND EXISTS (SELECT 1 FROM scrape_queue WHERE scrape_queue.run_id = scrape_runs.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM scrape_queue
+        WHERE scrape_queue.run_id = scrape_runs.id
+          AND scrape_queue.status IN ('pending', 'running')
+      )
+    RETURNING scrape_runs.id
+  ),
+  released AS (
+    DELETE FROM scrape_locks
+    WHERE kind = 'scheduled'
+      AND NOT EXISTS (SELECT 1 FROM scrape_queue WHERE status IN ('pending', 'running'))
+    RETURNING name
+  )
+  SELECT id FROM finalized;
+$$;
+
+-- Only the edge functions (service role) take the lock
+REVOKE EXECUTE ON FUNCTION public.acquire_scrape_lock(TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_scrape_lock(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_scrape_run(UUID[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.return_scrape_task(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.acquire_scrape_lock(TEXT, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_scrape_lock(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_scrape_run(UUID[], INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.return_scrape_task(UUID, TEXT, INTEGER) TO service_role;
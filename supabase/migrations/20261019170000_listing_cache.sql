@@ -0,0 +1,24 @@
+/*
+  # Conditional fetching and listing hashes
+
+  1. Changes to `tracked_companies`
+    - `listing_url`: the URL the company's listing was last read from (the
+      career page itself, or the job board API behind it)
+    - `etag`, `last_modified`: that response's HTTP cache validators, sent back
+      as `If-None-Match` / `If-Modified-Since` on the next scrape
+    - `content_hash`: SHA-256 of the normalized listing; a listing that hashes
+      the same is not diffed against stored jobs again
+
+  2. Changes to `scrape_run_companies`
+    - `unchanged`: the listing was not modified, or hashed the same as last
+      time, so the company was skipped
+*/
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS listing_url TEXT,
+  ADD COLUMN IF NOT EXISTS etag TEXT,
+  ADD COLUMN IF NOT EXISTS last_modified TEXT,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE public.scrape_run_companies
+  ADD COLUMN IF NOT EXISTS unchanged BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,67 @@
+/*
+  # Per-host politeness state
+
+  1. New Tables
+    - `scrape_hosts`: one row per host the scraper has visited
+      - `next_request_at`: the earliest time the next request to this host may
+        be sent, shared by every worker so companies on the same host are
+        spaced out together
+      - `robots_txt`, `robots_status`, `robots_fetched_at`: the host's cached
+        robots.txt. `missing` means it answered 4xx (no rules), `unreachable`
+        means it answered 5xx or not at all (nothing may be fetched)
+
+  2. Changes to `tracked_companies`
+    - `last_error_category`: what kind of failure `last_error` was, e.g.
+      `robots` when robots.txt disallows the career page
+
+  3. Changes to `scrape_run_companies`
+    - `error_category`: the same, per company per run
+
+  4. Functions (service role only)
+    - `reserve_host_request`: atomically books the host's next request slot
+      `p_interval_ms` after the previous one and returns how many
+      milliseconds the caller must wait before sending
+
+  5. Security
+    - Enable RLS on `scrape_hosts` with no policies; only the service role
+      reads or writes it
+*/
+
+CREATE TABLE IF NOT EXISTS public.scrape_hosts (
+  host TEXT NOT NULL,
+  next_request_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  robots_txt TEXT,
+  robots_status TEXT CHECK (robots_status IN ('ok', 'missing', 'unreachable')),
+  robots_fetched_at TIMESTAMPTZ,
+  PRIMARY KEY (host)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.scrape_hosts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS last_error_category TEXT;
+
+ALTER TABLE public.scrape_run_companies
+  ADD COLUMN IF NOT EXISTS error_category TEXT;
+
+CREATE OR REPLACE FUNCTION public.reserve_host_request(
+  p_host TEXT,
+  p_interval_ms INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = public
+AS $$
+  -- The caller's slot is the later of the booked time and now; the host is
+  -- then booked one interval after that slot
+  INSERT INTO scrape_hosts (host, next_request_at)
+  VALUES (p_host, now() + make_interval(secs => p_interval_ms / 1000.0))
+  ON CONFLICT (host) DO UPDATE
+  SET next_request_at = GREATEST(scrape_hosts.next_request_at, now()) + make_interval(secs => p_interval_ms / 1000.0)
+  RETURNING GREATEST(0, EXTRACT(EPOCH FROM (next_request_at - now())) * 1000 - p_interval_ms)::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_host_request(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.reserve_host_request(TEXT, INTEGER) TO service_role;
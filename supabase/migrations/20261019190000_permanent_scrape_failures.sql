@@ -0,0 +1,55 @@
+/*
+  # Permanent scrape failures
+
+  Failures are now sorted into categories (`dns`, `timeout`, `network`,
+  `rate_limited`, `server`, `blocked`, `not_found`, `http`, `parse`,
+  `robots`). Timeouts, dropped connections, 429s and 5xx responses are
+  transient and retried as before; the rest won't fix themselves, so the task
+  is dead-lettered on its first failure instead of being retried.
+
+  1. Changes to `scrape_queue`
+    - `last_error_category`: the category of `last_error`
+
+  2. Functions (service role only)
+    - `fail_scrape_task`: takes the error category, and `p_retryable = false`
+      moves the task to `dead` straight away
+*/
+
+ALTER TABLE public.scrape_queue
+  ADD COLUMN IF NOT EXISTS last_error_category TEXT;
+
+DROP FUNCTION IF EXISTS public.fail_scrape_task(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.fail_scrape_task(
+  p_task_id UUID,
+  p_worker TEXT,
+  p_error TEXT,
+  p_retry_base_seconds INTEGER DEFAULT 60,
+  p_error_category TEXT DEFAULT NULL,
+  p_retryable BOOLEAN DEFAULT true
+)
+RETURNS TEXT
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE scrape_queue
+  SET status = CASE WHEN attempts >= max_attempts OR NOT p_retryable THEN 'dead' ELSE 'pending' END,
+      available_at = CASE
+        WHEN attempts >= max_attempts OR NOT p_retryable THEN available_at
+        ELSE now() + make_interval(secs => p_retry_base_seconds * power(2, attempts - 1))
+      END,
+      finished_at = CASE WHEN attempts >= max_attempts OR NOT p_retryable THEN now() END,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = p_error,
+      last_error_category = p_error_category,
+      updated_at = now()
+  WHERE id = p_task_id
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING status;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_scrape_task(UUID, TEXT, TEXT, INTEGER, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.fail_scrape_task(UUID, TEXT, TEXT, INTEGER, TEXT, BOOLEAN) TO service_role;
@@ -0,0 +1,127 @@
+/*
+  # Scrape each listing once
+
+  Several users often track the same career page. Companies that read the same
+  listing now share one fetch per run and the jobs are fanned out to each of
+  them.
+
+  1. Changes to `tracked_companies`
+    - `listing_key`: identifies the listing a company reads, from its career
+      page URL and extraction recipe. Kept current by a trigger.
+
+  2. Functions
+    - `normalize_listing_key`: hashes the URL (fragment dropped, scheme and
+      host lowercased, default port and trailing slash removed) together with
+      the recipe
+    - `claim_scrape_tasks`: alongside the tasks it picks, also claims every
+      other due task whose company has the same `listing_key`, so one worker
+      scrapes that listing for all of them
+*/
+
+CREATE OR REPLACE FUNCTION public.normalize_listing_key(p_url TEXT, p_recipe JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_url TEXT := btrim(p_url);
+  v_parts TEXT[];
+BEGIN
+  -- Fragments never reach the server
+  v_url := regexp_replace(v_url, '#.*$', '');
+
+  -- Scheme and host are case-insensitive, and default ports are implied
+  v_parts := regexp_match(v_url, '^([A-Za-z][A-Za-z0-9+.-]*://[^/?]*)(.*)$');
+  IF v_parts IS NOT NULL THEN
+    v_url := regexp_replace(lower(v_parts[1]), '^(https://[^/]*):443$|^(http://[^/]*):80$', '\1\2') || v_parts[2];
+  END IF;
+
+  -- "/careers/", "/careers" and "/careers?" are the same page
+  v_url := regexp_replace(v_url, '/?\??$', '');
+
+  RETURN md5(v_url || E'\n' || COALESCE(p_recipe::TEXT, ''));
+END;
+$$;
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS listing_key TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_listing_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.listing_key := normalize_listing_key(NEW.career_page_url, NEW.extraction_recipe);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_tracked_company_listing_key ON public.tracked_companies;
+CREATE TRIGGER set_tracked_company_listing_key
+  BEFORE INSERT OR UPDATE OF career_page_url, extraction_recipe ON public.tracked_companies
+  FOR EACH ROW EXECUTE FUNCTION public.set_listing_key();
+
+UPDATE public.tracked_companies
+SET listing_key = public.normalize_listing_key(career_page_url, extraction_recipe);
+
+CREATE INDEX IF NOT EXISTS tracked_companies_listing_key_idx ON public.tracked_companies (listing_key);
+
+CREATE OR REPLACE FUNCTION public.claim_scrape_tasks(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF public.scrape_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- A worker that died during the final attempt never reports back, so its
+  -- task is dead-lettered here instead of being retried again
+  UPDATE scrape_queue
+  SET status = 'dead',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      last_error = COALESCE(last_error, 'Worker lease expired on the final attempt'),
+      finished_at = now(),
+      updated_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  WITH picked AS (
+    SELECT candidate.id, candidate.company_id
+    FROM scrape_queue AS candidate
+    WHERE (candidate.status = 'pending' AND candidate.available_at <= now())
+       OR (candidate.status = 'running' AND candidate.lease_expires_at < now())
+    ORDER BY candidate.available_at, candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  -- Due tasks for other companies reading the same listings
+  siblings AS (
+    SELECT sibling.id
+    FROM scrape_queue AS sibling
+    JOIN tracked_companies AS company ON company.id = sibling.company_id
+    WHERE ((sibling.status = 'pending' AND sibling.available_at <= now())
+        OR (sibling.status = 'running' AND sibling.lease_expires_at < now()))
+      AND company.listing_key IN (
+        SELECT picked_company.listing_key
+        FROM picked
+        JOIN tracked_companies AS picked_company ON picked_company.id = picked.company_id
+      )
+    FOR UPDATE OF sibling SKIP LOCKED
+  )
+  UPDATE scrape_queue
+  SET status = 'running',
+      attempts = scrape_queue.attempts + 1,
+      locked_by = p_worker,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE scrape_queue.id IN (SELECT picked.id FROM picked UNION SELECT siblings.id FROM siblings)
+  RETURNING scrape_queue.*;
+END;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # One job per position per tracked company
+
+  The scraper now inserts each company's new jobs in one statement with
+  `ON CONFLICT DO NOTHING`, relying on this index instead of a lookup per job.
+  That also stops two overlapping runs from inserting the same job twice.
+
+  1. Changes to `jobs`
+    - Scraped jobs are linked to their tracked company through `company_id`.
+      Existing jobs are linked where the company name identifies a single
+      tracked company of the same user, keeping the oldest row per position.
+    - Unique index on (`company_id`, `position`). Jobs without a company
+      (added by hand) are not affected.
+*/
+
+WITH matches AS (
+  SELECT DISTINCT ON (company.id, jobs.position)
+    jobs.id AS job_id,
+    company.id AS company_id
+  FROM public.jobs
+  JOIN public.tracked_companies AS company
+    ON company.user_id = jobs.user_id
+   AND company.company_name = jobs.company
+  WHERE jobs.company_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.tracked_companies AS same_name
+      WHERE same_name.user_id = company.user_id
+        AND same_name.company_name = company.company_name
+        AND same_name.id <> company.id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.jobs AS linked
+      WHERE linked.company_id = company.id
+        AND linked.position = jobs.position
+    )
+  ORDER BY company.id, jobs.position, jobs.created_at
+)
+UPDATE public.jobs
+SET company_id = matches.company_id
+FROM matches
+WHERE jobs.id = matches.job_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS jobs_company_id_position_key
+  ON public.jobs (company_id, position);
@@ -0,0 +1,26 @@
+/*
+  # Job fingerprints
+
+  `jobs_company_id_title_url_key` from 20250619144244_smooth_trail referred to
+  a `title` column that `jobs` never had (the title is stored in `position`),
+  and the (company_id, position) index merged different roles that share a
+  title. Scraped jobs are now identified by a fingerprint instead.
+
+  1. Changes to `jobs`
+    - `canonical_url`: the posting's URL without fragment or tracking
+      parameters, with its query sorted
+    - `fingerprint`: SHA-256 of the company id, canonical URL and normalized
+      title, computed by the scraper. Unique; jobs added by hand have none.
+    - Drop `jobs_company_id_title_url_key` if it exists, and the
+      `jobs_company_id_position_key` index
+*/
+
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_company_id_title_url_key;
+
+DROP INDEX IF EXISTS public.jobs_company_id_position_key;
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+  ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS jobs_fingerprint_key ON public.jobs (fingerprint);
@@ -0,0 +1,100 @@
+/*
+  # Posting lifecycle
+
+  Each successful scrape compares the postings on a company's listing with its
+  stored jobs. A posting missing from several runs in a row is closed; one that
+  comes back is reopened.
+
+  1. Changes to `jobs`
+    - `last_seen_at`: the last run that found the posting on the listing
+    - `missed_runs`: successful runs in a row that did not find it
+    - `closed_at`: when it was closed for having gone missing too many times;
+      null while the posting is open
+
+  2. Changes to `profiles`
+    - `notify_on_posting_closed`: opt-in to alerts when a posting the user is
+      pursuing (interviewing, offered, or matched a keyword) is taken down
+
+  3. Changes to `notifications`
+    - `type` also allows `posting_closed`
+
+  4. Changes to `scrape_run_companies`
+    - `postings_closed`, `postings_reopened`: what the run changed
+
+  5. Functions (service role only)
+    - `record_job_sightings`: marks the company's fingerprinted jobs seen or
+      missed, closes the ones that reached `p_close_after_missed_runs` and
+      returns the jobs that were closed or reopened. Pass null fingerprints
+      when the listing is unchanged since the last run.
+*/
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS missed_runs INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS jobs_company_id_idx ON public.jobs (company_id);
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS notify_on_posting_closed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN ('job_match', 'company_paused', 'posting_closed'));
+
+ALTER TABLE public.scrape_run_companies
+  ADD COLUMN IF NOT EXISTS postings_closed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS postings_reopened INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.record_job_sightings(
+  p_company_id UUID,
+  p_seen_fingerprints TEXT[],
+  p_close_after_missed_runs INTEGER DEFAULT 3
+)
+RETURNS TABLE (job_id UUID, change TEXT)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH tracked AS (
+    SELECT jobs.id,
+      jobs.closed_at,
+      jobs.missed_runs,
+      CASE
+        -- An unchanged listing still holds exactly what the last run saw
+        WHEN p_seen_fingerprints IS NULL THEN jobs.closed_at IS NULL AND jobs.missed_runs = 0
+        ELSE jobs.fingerprint = ANY (p_seen_fingerprints)
+      END AS seen
+    FROM jobs
+    WHERE jobs.company_id = p_company_id
+      AND jobs.fingerprint IS NOT NULL
+    FOR UPDATE
+  ),
+  seen AS (
+    UPDATE jobs
+    SET last_seen_at = now(),
+        missed_runs = 0,
+        closed_at = NULL
+    FROM tracked
+    WHERE jobs.id = tracked.id
+      AND tracked.seen
+      AND p_seen_fingerprints IS NOT NULL
+    RETURNING jobs.id, tracked.closed_at IS NOT NULL AS reopened
+  ),
+  missed AS (
+    UPDATE jobs
+    SET missed_runs = tracked.missed_runs + 1,
+        closed_at = CASE WHEN tracked.missed_runs + 1 >= p_close_after_missed_runs THEN now() END
+    FROM tracked
+    WHERE jobs.id = tracked.id
+      AND NOT tracked.seen
+      AND tracked.closed_at IS NULL
+    RETURNING jobs.id, jobs.closed_at IS NOT NULL AS closed
+  )
+  SELECT seen.id, 'reopened' FROM seen WHERE seen.reopened
+  UNION ALL
+  SELECT missed.id, 'closed' FROM missed WHERE missed.closed;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_job_sightings(UUID, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.record_job_sightings(UUID, TEXT[], INTEGER) TO service_role;
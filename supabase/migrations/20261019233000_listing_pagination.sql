@@ -0,0 +1,40 @@
+/*
+  # Listing pagination limits
+
+  The scraper now follows a listing's next-page links. How far it goes can be
+  set per company.
+
+  1. Changes to `tracked_companies`
+    - `max_pages`: listing pages to read, 1 to 50; null uses the scraper's
+      default (`SCRAPER_MAX_PAGES`)
+    - `max_jobs`: jobs to keep from the listing, 1 to 1000; null keeps 50 for
+      listings read with the layout heuristics and every job otherwise
+
+  2. Functions
+    - `set_listing_key`: companies with different limits read different
+      amounts of the same listing, so the limits are part of the key.
+      Companies without limits keep the key they had.
+*/
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS max_pages INTEGER CHECK (max_pages BETWEEN 1 AND 50),
+  ADD COLUMN IF NOT EXISTS max_jobs INTEGER CHECK (max_jobs BETWEEN 1 AND 1000);
+
+CREATE OR REPLACE FUNCTION public.set_listing_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.listing_key := normalize_listing_key(NEW.career_page_url, NEW.extraction_recipe);
+  IF NEW.max_pages IS NOT NULL OR NEW.max_jobs IS NOT NULL THEN
+    NEW.listing_key := md5(NEW.listing_key || E'\n' || COALESCE(NEW.max_pages::TEXT, '') || E'\n' || COALESCE(NEW.max_jobs::TEXT, ''));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_tracked_company_listing_key ON public.tracked_companies;
+CREATE TRIGGER set_tracked_company_listing_key
+  BEFORE INSERT OR UPDATE OF career_page_url, extraction_recipe, max_pages, max_jobs ON public.tracked_companies
+  FOR EACH ROW EXECUTE FUNCTION public.set_listing_key();
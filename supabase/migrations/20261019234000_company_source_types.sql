@@ -0,0 +1,42 @@
+/*
+  # Company source types
+
+  Companies can now name the kind of source their career page URL points at
+  instead of relying on detection, including RSS, Atom and JSON feeds.
+
+  1. Changes to `tracked_companies`
+    - `source_type`: `auto` (the default: detect job board URLs and feeds,
+      otherwise read the page), `html`, `feed`, `greenhouse`, `lever` or
+      `workday`
+
+  2. Functions
+    - `set_listing_key`: companies reading the same URL as different kinds of
+      source read different listings, so a type other than `auto` is part of
+      the key. Existing keys are unchanged.
+*/
+
+ALTER TABLE public.tracked_companies
+  ADD COLUMN IF NOT EXISTS source_type TEXT NOT NULL DEFAULT 'auto'
+    CHECK (source_type IN ('auto', 'html', 'feed', 'greenhouse', 'lever', 'workday'));
+
+CREATE OR REPLACE FUNCTION public.set_listing_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.listing_key := normalize_listing_key(NEW.career_page_url, NEW.extraction_recipe);
+  IF NEW.max_pages IS NOT NULL OR NEW.max_jobs IS NOT NULL THEN
+    NEW.listing_key := md5(NEW.listing_key || E'\n' || COALESCE(NEW.max_pages::TEXT, '') || E'\n' || COALESCE(NEW.max_jobs::TEXT, ''));
+  END IF;
+  IF NEW.source_type <> 'auto' THEN
+    NEW.listing_key := md5(NEW.listing_key || E'\n' || NEW.source_type);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_tracked_company_listing_key ON public.tracked_companies;
+CREATE TRIGGER set_tracked_company_listing_key
+  BEFORE INSERT OR UPDATE OF career_page_url, extraction_recipe, max_pages, max_jobs, source_type ON public.tracked_companies
+  FOR EACH ROW EXECUTE FUNCTION public.set_listing_key();
@@ -0,0 +1,35 @@
+/*
+  # Renew scrape task leases
+
+  A claim hands a worker every due task reading the same listing, and reading
+  a paginated listing and the detail pages of its new postings for all of them
+  can outlast the lease. Another worker would then reclaim tasks that are
+  still being scraped. Workers now renew their leases while they work.
+
+  1. Functions (service role only)
+    - `renew_scrape_task_leases`: pushes `lease_expires_at` forward for the
+      given tasks the worker still holds, and returns the ids it renewed. A
+      task that was settled or reclaimed by another worker is left alone.
+*/
+
+CREATE OR REPLACE FUNCTION public.renew_scrape_task_leases(
+  p_task_ids UUID[],
+  p_worker TEXT,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF UUID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE scrape_queue
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE id = ANY (p_task_ids)
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renew_scrape_task_leases(UUID[], TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.renew_scrape_task_leases(UUID[], TEXT, INTEGER) TO service_role;
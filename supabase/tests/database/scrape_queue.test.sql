@@ -0,0 +1,198 @@
+-- Claiming, renewing, failing, returning and finalizing scrape queue tasks.
+-- Run against a local database with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(31);
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'queue-test@example.com');
+
+-- A and B read the same listing, C its own
+INSERT INTO public.tracked_companies (id, user_id, company_name, career_page_url)
+VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000a1', 'Acme', 'https://acme.example/careers'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000a1', 'Acme (again)', 'https://ACME.example/careers/'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000a1', 'Initech', 'https://initech.example/jobs');
+
+CREATE TEMP TABLE run AS
+SELECT * FROM public.enqueue_scrape_run(ARRAY[
+  '00000000-0000-0000-0000-00000000000a',
+  '00000000-0000-0000-0000-00000000000b',
+  '00000000-0000-0000-0000-00000000000c'
+]::UUID[]);
+
+SELECT is((SELECT tasks_enqueued FROM run), 3, 'enqueue_scrape_run queues one task per company');
+
+-- now() is fixed for the whole transaction, so order the tasks explicitly
+UPDATE public.scrape_queue
+SET available_at = now() - CASE company_id
+  WHEN '00000000-0000-0000-0000-00000000000a' THEN interval '3 minutes'
+  WHEN '00000000-0000-0000-0000-00000000000b' THEN interval '2 minutes'
+  ELSE interval '1 minute'
+END;
+
+CREATE TEMP VIEW task AS
+SELECT company_id, status, attempts, locked_by, lease_expires_at, available_at, last_error
+FROM public.scrape_queue;
+
+-- 1. Claiming
+
+CREATE TEMP TABLE claimed_by_w1 AS SELECT * FROM public.claim_scrape_tasks('w1', 1, 120);
+
+SELECT is(
+  ARRAY(SELECT company_id FROM claimed_by_w1 ORDER BY company_id),
+  ARRAY['00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b']::UUID[],
+  'claiming one task also claims the due tasks reading the same listing'
+);
+SELECT ok(
+  (SELECT bool_and(status = 'running' AND attempts = 1 AND locked_by = 'w1' AND lease_expires_at = now() + interval '120 seconds') FROM claimed_by_w1),
+  'claimed tasks are running under the worker''s lease and use up an attempt'
+);
+
+SELECT is(
+  ARRAY(SELECT company_id FROM public.claim_scrape_tasks('w2', 5, 120)),
+  ARRAY['00000000-0000-0000-0000-00000000000c']::UUID[],
+  'another worker only gets the tasks nobody holds'
+);
+SELECT is((SELECT count(*)::INTEGER FROM public.claim_scrape_tasks('w3', 5, 120)), 0, 'nothing is left to claim');
+
+-- 2. Renewing leases
+
+SELECT is(
+  ARRAY(SELECT public.renew_scrape_task_leases(ARRAY(SELECT id FROM public.scrape_queue), 'w1', 600) ORDER BY 1),
+  ARRAY(SELECT id FROM claimed_by_w1 ORDER BY id),
+  'a worker renews only the tasks it holds'
+);
+SELECT is(
+  (SELECT lease_expires_at FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'),
+  now() + interval '600 seconds',
+  'renewing pushes the lease forward'
+);
+SELECT is(
+  (SELECT lease_expires_at FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000c'),
+  now() + interval '120 seconds',
+  'other workers'' leases are left alone'
+);
+
+-- 3. Failing
+
+SELECT is(
+  public.fail_scrape_task((SELECT id FROM claimed_by_w1 WHERE company_id = '00000000-0000-0000-0000-00000000000a'), 'w2', 'boom', 60),
+  NULL,
+  'a worker cannot fail a task it does not hold'
+);
+SELECT is(
+  public.fail_scrape_task((SELECT id FROM claimed_by_w1 WHERE company_id = '00000000-0000-0000-0000-00000000000a'), 'w1', 'timed out', 60, 'timeout', true),
+  'pending',
+  'a retryable failure puts the task back in the queue'
+);
+SELECT ok(
+  (SELECT available_at = now() + interval '60 seconds' AND locked_by IS NULL AND lease_expires_at IS NULL AND last_error = 'timed out'
+   FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'),
+  'the retry waits the base delay after the first attempt and releases the lease'
+);
+SELECT is(
+  public.fail_scrape_task((SELECT id FROM claimed_by_w1 WHERE company_id = '00000000-0000-0000-0000-00000000000b'), 'w1', 'HTTP 404', 60, 'not_found', false),
+  'dead',
+  'a permanent failure dead-letters the task on its first attempt'
+);
+SELECT is(
+  (SELECT finished_at FROM public.scrape_queue WHERE company_id = '00000000-0000-0000-0000-00000000000b'),
+  now(),
+  'a dead task is finished'
+);
+
+-- 4. Returning
+
+SELECT is(
+  public.return_scrape_task((SELECT id FROM public.scrape_queue WHERE company_id = '00000000-0000-0000-0000-00000000000c'), 'w1', 30),
+  false,
+  'a worker cannot return a task it does not hold'
+);
+SELECT is(
+  public.return_scrape_task((SELECT id FROM public.scrape_queue WHERE company_id = '00000000-0000-0000-0000-00000000000c'), 'w2', 30),
+  true,
+  'the holder can return its task'
+);
+SELECT ok(
+  (SELECT status = 'pending' AND attempts = 0 AND locked_by IS NULL AND available_at = now() + interval '30 seconds'
+   FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000c'),
+  'a returned task is pending again after the delay without using up an attempt'
+);
+
+-- 5. Expired leases
+
+UPDATE public.scrape_queue SET available_at = now() - interval '1 second'
+WHERE company_id = '00000000-0000-0000-0000-00000000000a';
+SELECT is(
+  ARRAY(SELECT company_id FROM public.claim_scrape_tasks('w1', 1, 120)),
+  ARRAY['00000000-0000-0000-0000-00000000000a']::UUID[],
+  'a retried task is claimed again once it is due'
+);
+SELECT is((SELECT attempts FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'), 2, 'the retry is the second attempt');
+
+-- w1 stops renewing: its lease runs out and w2 takes over
+UPDATE public.scrape_queue SET lease_expires_at = now() - interval '1 second'
+WHERE company_id = '00000000-0000-0000-0000-00000000000a';
+SELECT is(
+  ARRAY(SELECT company_id FROM public.claim_scrape_tasks('w2', 1, 120)),
+  ARRAY['00000000-0000-0000-0000-00000000000a']::UUID[],
+  'a task whose lease ran out is reclaimed'
+);
+SELECT ok(
+  (SELECT locked_by = 'w2' AND attempts = 3 FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'),
+  'the reclaim counts as another attempt'
+);
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.renew_scrape_task_leases(ARRAY(SELECT id FROM claimed_by_w1), 'w1', 120)),
+  0,
+  'the worker that lost the lease cannot renew it'
+);
+SELECT is(
+  public.complete_scrape_task((SELECT id FROM claimed_by_w1 WHERE company_id = '00000000-0000-0000-0000-00000000000a'), 'w1'),
+  false,
+  'nor complete it'
+);
+
+-- w2 dies during the final attempt
+UPDATE public.scrape_queue SET lease_expires_at = now() - interval '1 second'
+WHERE company_id = '00000000-0000-0000-0000-00000000000a';
+SELECT is((SELECT count(*)::INTEGER FROM public.claim_scrape_tasks('w3', 5, 120)), 0, 'a task whose final attempt expired is not claimed again');
+SELECT ok(
+  (SELECT status = 'dead' AND locked_by IS NULL AND lease_expires_at IS NULL FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'),
+  'it is dead-lettered instead'
+);
+SELECT is(
+  (SELECT last_error FROM task WHERE company_id = '00000000-0000-0000-0000-00000000000a'),
+  'timed out',
+  'keeping the error from its last reported failure'
+);
+
+-- 6. Finalizing
+
+SELECT is((SELECT count(*)::INTEGER FROM public.finalize_scrape_runs()), 0, 'a run with open tasks is not finalized');
+SELECT is((SELECT status FROM public.scrape_runs WHERE id = (SELECT run_id FROM run)), 'running', 'and stays running');
+
+UPDATE public.scrape_queue SET available_at = now() - interval '1 second'
+WHERE company_id = '00000000-0000-0000-0000-00000000000c';
+SELECT is(
+  public.complete_scrape_task((SELECT id FROM public.claim_scrape_tasks('w1', 1, 120)), 'w1'),
+  true,
+  'the holder completes its task'
+);
+
+SELECT is(
+  ARRAY(SELECT public.finalize_scrape_runs()),
+  ARRAY(SELECT run_id FROM run),
+  'the run is finalized once no task is open'
+);
+SELECT ok(
+  (SELECT status = 'completed' AND companies_processed = 3 AND companies_completed = 1 AND companies_failed = 2
+   FROM public.scrape_runs WHERE id = (SELECT run_id FROM run)),
+  'with the totals of its tasks'
+);
+SELECT is((SELECT count(*)::INTEGER FROM public.scrape_locks), 0, 'and the scheduled lock is released');
+
+SELECT * FROM finish();
+ROLLBACK;